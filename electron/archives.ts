@@ -0,0 +1,92 @@
+// --------------------------- Archive listing and checks ---------------------------
+// Parses `7z l -slt` output and decides whether an archive is safe to extract: entries escaping the
+// destination (absolute or `..` paths) and archives over the size/file-count limits are refused;
+// executables/scripts and large content only produce warnings shown before installing.
+
+export type ArchiveEntry = {
+  path: string // as stored in the archive (either separator)
+  folder: boolean
+  size: number // uncompressed bytes, 0 for folders/unknown
+  encrypted: boolean
+}
+
+export type ArchiveWarning = {
+  kind: 'unsafePath' | 'executable' | 'tooLarge' | 'tooManyFiles' | 'large'
+  path?: string
+  blocking: boolean // extraction is refused
+}
+
+export type ArchiveCheck = {
+  fileCount: number
+  totalSize: number
+  warnings: ArchiveWarning[]
+  blocking: boolean
+}
+
+export type ArchiveLimits = {
+  maxTotalBytes: number
+  maxFiles: number
+  warnTotalBytes: number
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxTotalBytes: 8 * 1024 ** 3,
+  maxFiles: 50000,
+  warnTotalBytes: 1024 ** 3,
+}
+
+const EXECUTABLE_RE = /\.(exe|dll|bat|cmd|com|scr|msi|ps1|vbs|vbe|js|jse|wsf|hta|jar|sh|py|lnk|reg)$/i
+
+const isFlagOn = (value: string) => value === '+' || value.toLowerCase() === 'yes' || value === '1'
+
+// Blocks of "Key = Value" lines separated by blank lines. The archive's own header block comes
+// before the "----------" line, so only what follows it is returned when that line is present.
+export function parseSltListing(output: string): ArchiveEntry[] {
+  const lines = output.split(/\r?\n/)
+  const sep = lines.findIndex((l) => l.trim() === '----------')
+  const entries: ArchiveEntry[] = []
+  let cur: Partial<ArchiveEntry> | null = null
+  const flush = () => {
+    if (cur?.path) entries.push({ path: cur.path, folder: !!cur.folder, size: cur.size || 0, encrypted: !!cur.encrypted })
+    cur = null
+  }
+  for (const raw of lines.slice(sep >= 0 ? sep + 1 : 0)) {
+    const line = raw.trim()
+    if (!line) { flush(); continue }
+    const eq = line.indexOf('=')
+    if (eq <= 0) continue
+    const key = line.slice(0, eq).trim()
+    const value = line.slice(eq + 1).trim()
+    if (!cur) cur = {}
+    if (key === 'Path') cur.path = value
+    else if (key === 'Folder') cur.folder = cur.folder || isFlagOn(value)
+    else if (key === 'Attributes') { if (/\bD/i.test(value)) cur.folder = true }
+    else if (key === 'Size') cur.size = Number(value) || 0
+    else if (key === 'Encrypted') cur.encrypted = isFlagOn(value)
+  }
+  flush()
+  return entries
+}
+
+// Absolute (/x, C:\x, \\server\x) or with a `..` component: it would land outside the destination
+export function isUnsafeEntryPath(p: string) {
+  if (/^([a-z]:)?[\\/]/i.test(p) || /^[a-z]:/i.test(p)) return true
+  return p.split(/[\\/]/).includes('..')
+}
+
+export function checkArchiveEntries(entries: ArchiveEntry[], limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): ArchiveCheck {
+  const warnings: ArchiveWarning[] = []
+  let fileCount = 0
+  let totalSize = 0
+  for (const e of entries) {
+    if (isUnsafeEntryPath(e.path)) warnings.push({ kind: 'unsafePath', path: e.path, blocking: true })
+    if (e.folder) continue
+    fileCount++
+    totalSize += e.size
+    if (EXECUTABLE_RE.test(e.path)) warnings.push({ kind: 'executable', path: e.path, blocking: false })
+  }
+  if (fileCount > limits.maxFiles) warnings.push({ kind: 'tooManyFiles', blocking: true })
+  if (totalSize > limits.maxTotalBytes) warnings.push({ kind: 'tooLarge', blocking: true })
+  else if (totalSize > limits.warnTotalBytes) warnings.push({ kind: 'large', blocking: false })
+  return { fileCount, totalSize, warnings, blocking: warnings.some((w) => w.blocking) }
+}
@@ -0,0 +1,146 @@
+import path from 'node:path'
+import fsp from 'node:fs/promises'
+import { downloadFile } from './http'
+
+// --------------------------- Download queue ---------------------------
+// Archives requested from a URL are downloaded into their own folder under `baseDir` (at most
+// `concurrency` at a time) and then handed to `install`. The queue only lives in memory; the
+// renderer gets the full list through `onChange` after every state change.
+
+export type DownloadStatus = 'queued' | 'downloading' | 'installing' | 'done' | 'error' | 'cancelled'
+
+export type DownloadRequest = {
+  url: string
+  character: string
+  pageUrl?: string
+  autoInstall?: boolean // false: keep the file and let the caller install it (filePath is set when done)
+}
+
+export type DownloadItem = {
+  id: string
+  url: string
+  character: string
+  pageUrl?: string
+  autoInstall: boolean
+  fileName?: string
+  status: DownloadStatus
+  received: number
+  total: number
+  error?: string
+  filePath?: string
+  modName?: string
+  createdAt: string
+}
+
+export type DownloadQueueOptions = {
+  baseDir: string
+  concurrency?: number
+  install: (item: DownloadItem, filePath: string) => Promise<string> // returns the installed mod name
+  onChange?: (items: DownloadItem[]) => void
+}
+
+export function createDownloadQueue(opts: DownloadQueueOptions) {
+  const items: DownloadItem[] = []
+  const controllers = new Map<string, AbortController>()
+  const concurrency = opts.concurrency ?? 2
+
+  const itemDir = (id: string) => path.join(opts.baseDir, id)
+  const emit = () => opts.onChange?.(items.map((it) => ({ ...it })))
+  const find = (id: string) => items.find((it) => it.id === id)
+
+  async function run(item: DownloadItem) {
+    const controller = new AbortController()
+    controllers.set(item.id, controller)
+    Object.assign(item, { status: 'downloading', received: 0, total: 0, error: undefined })
+    emit()
+    try {
+      const filePath = await downloadFile(item.url, itemDir(item.id), {
+        signal: controller.signal,
+        onFileName: (name) => { item.fileName = name },
+        onProgress: (p) => { item.received = p.received; item.total = p.total; emit() },
+      })
+      item.filePath = filePath
+      if (item.autoInstall) {
+        item.status = 'installing'
+        emit()
+        item.modName = await opts.install(item, filePath)
+        item.filePath = undefined
+        await fsp.rm(itemDir(item.id), { recursive: true, force: true }).catch(() => {})
+      }
+      item.status = 'done'
+    } catch (e) {
+      if (controller.signal.aborted) item.status = 'cancelled'
+      else { item.status = 'error'; item.error = e instanceof Error ? e.message : String(e) }
+      await fsp.rm(itemDir(item.id), { recursive: true, force: true }).catch(() => {})
+    } finally {
+      controllers.delete(item.id)
+      emit()
+      pump()
+    }
+  }
+
+  function pump() {
+    let active = items.filter((it) => it.status === 'downloading' || it.status === 'installing').length
+    for (const it of items) {
+      if (active >= concurrency) break
+      if (it.status !== 'queued') continue
+      active++
+      run(it)
+    }
+  }
+
+  return {
+    list: () => items.map((it) => ({ ...it })),
+    get: (id: string) => { const it = find(id); return it ? { ...it } : undefined },
+    add(req: DownloadRequest) {
+      const url = String(req.url || '').trim()
+      if (!/^https?:\/\//i.test(url)) throw new Error('Only http(s) URLs can be downloaded')
+      const item: DownloadItem = {
+        id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        url,
+        character: req.character,
+        pageUrl: req.pageUrl || undefined,
+        autoInstall: req.autoInstall !== false,
+        status: 'queued',
+        received: 0,
+        total: 0,
+        createdAt: new Date().toISOString(),
+      }
+      items.push(item)
+      emit()
+      pump()
+      return { ...item }
+    },
+    cancel(id: string) {
+      const it = find(id)
+      if (!it) return false
+      if (it.status === 'queued') { it.status = 'cancelled'; emit(); return true }
+      // Installing is not interruptible; only the transfer is
+      const c = controllers.get(id)
+      if (!c || it.status !== 'downloading') return false
+      c.abort()
+      return true
+    },
+    retry(id: string) {
+      const it = find(id)
+      if (!it || (it.status !== 'error' && it.status !== 'cancelled')) return false
+      Object.assign(it, { status: 'queued', received: 0, total: 0, error: undefined })
+      emit()
+      pump()
+      return true
+    },
+    // Drop a finished/failed entry from the list (and its kept file, if any)
+    async remove(id: string) {
+      const idx = items.findIndex((it) => it.id === id)
+      if (idx < 0) return false
+      const it = items[idx]
+      if (it.status === 'downloading' || it.status === 'installing') return false
+      items.splice(idx, 1)
+      await fsp.rm(itemDir(id), { recursive: true, force: true }).catch(() => {})
+      emit()
+      return true
+    },
+  }
+}
+
+export type DownloadQueue = ReturnType<typeof createDownloadQueue>
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { HttpClient } from './http'
+import { fetchGameBananaMod, htmlToText, parseGameBananaUrl } from './gamebanana'
+
+// Answers every request with `response` (or rejects with it) and records the URLs asked for
+function fakeHttp(response: unknown, fail = false): HttpClient & { urls: string[] } {
+  const urls: string[] = []
+  return {
+    urls,
+    async getJson(url: string) {
+      urls.push(url)
+      if (fail) throw response
+      return response
+    },
+  }
+}
+
+describe('parseGameBananaUrl', () => {
+  it('reads the id of mod pages and download pages', () => {
+    expect(parseGameBananaUrl('https://gamebanana.com/mods/123456')).toEqual({ id: 123456 })
+    expect(parseGameBananaUrl('https://www.gamebanana.com/mods/download/42#FileInfo_1')).toEqual({ id: 42 })
+    expect(parseGameBananaUrl('http://GameBanana.com/Mods/7?tab=files')).toEqual({ id: 7 })
+  })
+
+  it('rejects WIPs, which are not mods and have their own ids', () => {
+    expect(parseGameBananaUrl('https://gamebanana.com/wips/123456')).toBeNull()
+  })
+
+  it('rejects other sites and malformed URLs', () => {
+    expect(parseGameBananaUrl('https://notgamebanana.com/mods/1')).toBeNull()
+    expect(parseGameBananaUrl('https://gamebanana.com.example.com/mods/1')).toBeNull()
+    expect(parseGameBananaUrl('https://gamebanana.com/mods/')).toBeNull()
+    expect(parseGameBananaUrl('https://gamebanana.com/members/1')).toBeNull()
+    expect(parseGameBananaUrl('gamebanana.com/mods/1')).toBeNull()
+    expect(parseGameBananaUrl('')).toBeNull()
+  })
+})
+
+describe('fetchGameBananaMod', () => {
+  const profile = {
+    _idRow: 5,
+    _sName: 'Ellen Maid Outfit',
+    _aSubmitter: { _sName: 'someone' },
+    _sText: '<p>Line one<br>Line &amp; two</p><ul><li>item</li></ul>',
+    _sVersion: '1.1',
+    _tsDateUpdated: 1714521600,
+    _tsDateAdded: 1700000000,
+    _aPreviewMedia: {
+      _aImages: [
+        { _sBaseUrl: 'https://images.gamebanana.com/img/ss/mods', _sFile: 'a.jpg', _sFile220: '220-90_a.jpg' },
+        { _sBaseUrl: 'https://images.gamebanana.com/img/ss/mods', _sFile: 'b.jpg' },
+        { _sFile: 'no-base.jpg' },
+      ],
+    },
+    _aFiles: [
+      { _idRow: 9, _sFile: 'ellen_v1.1.zip', _nFilesize: 2048, _tsDateAdded: 1714521600, _sDownloadUrl: 'https://gamebanana.com/dl/9', _sVersion: '1.1', _sDescription: 'Main' },
+      { _idRow: 10 },
+    ],
+  }
+
+  it('requests the profile page under the given API base', async () => {
+    const http = fakeHttp(profile)
+    await fetchGameBananaMod(http, 5, 'http://127.0.0.1:1234/api/')
+    expect(http.urls).toEqual(['http://127.0.0.1:1234/api/Mod/5/ProfilePage'])
+  })
+
+  it('maps the profile fields', async () => {
+    const mod = await fetchGameBananaMod(fakeHttp(profile), 5)
+    expect(mod).toMatchObject({
+      id: 5,
+      name: 'Ellen Maid Outfit',
+      author: 'someone',
+      description: 'Line one\nLine & two\nitem',
+      version: '1.1',
+      dateUpdated: 1714521600000,
+    })
+    expect(mod.images).toEqual([
+      { url: 'https://images.gamebanana.com/img/ss/mods/a.jpg', thumb: 'https://images.gamebanana.com/img/ss/mods/220-90_a.jpg' },
+      { url: 'https://images.gamebanana.com/img/ss/mods/b.jpg', thumb: 'https://images.gamebanana.com/img/ss/mods/b.jpg' },
+    ])
+    // Files without a name are dropped
+    expect(mod.files).toEqual([
+      { id: 9, name: 'ellen_v1.1.zip', size: 2048, date: 1714521600000, downloadUrl: 'https://gamebanana.com/dl/9', version: '1.1', description: 'Main' },
+    ])
+  })
+
+  it('leaves missing fields empty', async () => {
+    const mod = await fetchGameBananaMod(fakeHttp({ _idRow: 6, _sDescription: 'Short', _tsDateAdded: 1700000000 }), 6)
+    expect(mod).toEqual({
+      id: 6,
+      name: '',
+      author: undefined,
+      description: 'Short',
+      version: undefined,
+      dateUpdated: 1700000000000,
+      images: [],
+      files: [],
+    })
+  })
+
+  it('rejects responses that are not a mod profile', async () => {
+    for (const response of [null, [], 'error', { _sErrorCode: 'ERR_NOT_FOUND' }]) {
+      await expect(fetchGameBananaMod(fakeHttp(response), 7)).rejects.toThrow('Unexpected GameBanana response for mod 7')
+    }
+  })
+
+  it('passes request errors through', async () => {
+    await expect(fetchGameBananaMod(fakeHttp(new Error('HTTP 404 for x'), true), 8)).rejects.toThrow('HTTP 404')
+  })
+})
+
+describe('htmlToText', () => {
+  it('keeps line breaks and decodes entities', () => {
+    expect(htmlToText('<b>A</b>&nbsp;&lt;B&gt;<br/><div>&quot;C&#039;s&quot;</div>\n\n\n\nD')).toBe('A <B>\n"C\'s"\n\nD')
+  })
+})
@@ -0,0 +1,97 @@
+import { HttpClient, asJsonObject } from './http'
+import type { RemoteFile } from './updates'
+
+// --------------------------- GameBanana ---------------------------
+// Thin wrapper over the public apiv11 endpoints. The API base is a parameter so a local stand-in
+// server can answer instead of gamebanana.com.
+
+export const GAMEBANANA_API_BASE = 'https://gamebanana.com/apiv11'
+
+export type GameBananaImage = {
+  url: string // full size
+  thumb: string
+}
+
+export type GameBananaMod = {
+  id: number
+  name: string
+  author?: string
+  description?: string // plain text
+  version?: string
+  dateUpdated?: number // ms
+  images: GameBananaImage[]
+  files: RemoteFile[]
+}
+
+// https://gamebanana.com/mods/123456 (also /mods/download/123456)
+export function parseGameBananaUrl(url: string): { id: number } | null {
+  try {
+    const u = new URL(url)
+    if (!/(^|\.)gamebanana\.com$/i.test(u.hostname)) return null
+    const m = /^\/mods\/(?:download\/)?(\d+)/i.exec(u.pathname)
+    return m ? { id: Number(m[1]) } : null
+  } catch {
+    return null
+  }
+}
+
+function toMs(ts: unknown) {
+  const n = Number(ts)
+  return Number.isFinite(n) && n > 0 ? n * 1000 : undefined
+}
+
+function toRemoteFile(raw: unknown): RemoteFile {
+  const f = asJsonObject(raw)
+  return {
+    id: Number(f._idRow) || 0,
+    name: String(f._sFile || ''),
+    size: Number(f._nFilesize) || 0,
+    date: toMs(f._tsDateAdded) || 0,
+    downloadUrl: String(f._sDownloadUrl || ''),
+    version: f._sVersion ? String(f._sVersion) : undefined,
+    description: f._sDescription ? String(f._sDescription) : undefined,
+  }
+}
+
+// Descriptions come as HTML; keep line breaks and drop the markup
+export function htmlToText(html: string) {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function toImages(media: unknown): GameBananaImage[] {
+  const images = asJsonObject(media)._aImages
+  return (Array.isArray(images) ? images : [])
+    .map(asJsonObject)
+    .filter((img) => img._sBaseUrl && img._sFile)
+    .map((img) => ({
+      url: `${String(img._sBaseUrl)}/${String(img._sFile)}`,
+      thumb: `${String(img._sBaseUrl)}/${String(img._sFile220 || img._sFile100 || img._sFile)}`,
+    }))
+}
+
+export async function fetchGameBananaMod(http: HttpClient, id: number, apiBase = GAMEBANANA_API_BASE): Promise<GameBananaMod> {
+  const j = asJsonObject(await http.getJson(`${apiBase.replace(/\/$/, '')}/Mod/${id}/ProfilePage`))
+  if (j._idRow === undefined) throw new Error(`Unexpected GameBanana response for mod ${id}`)
+  const submitter = asJsonObject(j._aSubmitter)
+  return {
+    id,
+    name: String(j._sName || ''),
+    author: submitter._sName ? String(submitter._sName) : undefined,
+    description: j._sText ? htmlToText(String(j._sText)) : (j._sDescription ? String(j._sDescription) : undefined),
+    version: j._sVersion ? String(j._sVersion) : undefined,
+    dateUpdated: toMs(j._tsDateUpdated) || toMs(j._tsDateModified) || toMs(j._tsDateAdded),
+    images: toImages(j._aPreviewMedia),
+    files: Array.isArray(j._aFiles) ? j._aFiles.map(toRemoteFile).filter((f) => f.name) : [],
+  }
+}
@@ -0,0 +1,89 @@
+import { HashIndex, addToHashIndex, normalizeKeyword } from './sorting'
+
+// --------------------------- Character database ---------------------------
+// ZZZ characters with the aliases mods use for them, used to detect the character of a mod by name.
+// The copy shipped with the app (public/character-hashes.json) has nothing else. Mesh/texture hashes
+// per character are optional: they come from a database imported by the user or are learned from
+// the user's own sorted library, kept apart so importing a new database never loses them, and let
+// a mod whose name says nothing be matched by its INI.
+
+export type CharacterHashEntry = {
+  aliases?: string[] // other spellings used in mod names ("ZhuYuan", "Miyabi Hoshimi")
+  hashes: string[] // optional in the JSON file
+}
+
+export type CharacterHashDb = {
+  version: number
+  game?: string
+  updatedAt?: string
+  characters: Record<string, CharacterHashEntry>
+}
+
+const HASH_RE = /^[0-9a-f]{8}$/i
+
+// Validate a database read from disk or imported by the user; unknown keys are dropped
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v)
+
+export function parseCharacterHashDb(j: unknown): CharacterHashDb {
+  if (!isObject(j)) throw new Error('Invalid character database')
+  const version = Number(j.version)
+  if (!Number.isInteger(version) || version < 0) throw new Error('Invalid character database version')
+  if (!isObject(j.characters)) throw new Error('Character database has no characters')
+  const characters: Record<string, CharacterHashEntry> = {}
+  for (const [name, value] of Object.entries(j.characters)) {
+    const clean = name.trim()
+    if (!clean) continue
+    const entry = isObject(value) ? value : {}
+    const hashes = Array.isArray(entry.hashes) ? entry.hashes.map((h) => String(h).trim().toLowerCase()).filter((h) => HASH_RE.test(h)) : []
+    const aliases = Array.isArray(entry.aliases) ? entry.aliases.map((a) => String(a).trim()).filter(Boolean) : []
+    characters[clean] = { hashes: Array.from(new Set(hashes)), ...(aliases.length ? { aliases } : {}) }
+  }
+  return {
+    version,
+    game: j.game ? String(j.game) : undefined,
+    updatedAt: j.updatedAt ? String(j.updatedAt) : undefined,
+    characters,
+  }
+}
+
+export function emptyCharacterHashDb(): CharacterHashDb {
+  return { version: 0, characters: {} }
+}
+
+// Union of both databases (hashes and aliases); version/date come from `base`
+export function mergeCharacterHashDbs(base: CharacterHashDb, extra: CharacterHashDb): CharacterHashDb {
+  const characters: Record<string, CharacterHashEntry> = {}
+  for (const db of [base, extra]) {
+    for (const [name, entry] of Object.entries(db.characters)) {
+      const key = Object.keys(characters).find((k) => normalizeKeyword(k) === normalizeKeyword(name)) || name
+      const cur = characters[key] || { hashes: [] }
+      const aliases = Array.from(new Set([...(cur.aliases || []), ...(entry.aliases || [])]))
+      characters[key] = { hashes: Array.from(new Set([...cur.hashes, ...entry.hashes])), ...(aliases.length ? { aliases } : {}) }
+    }
+  }
+  return { ...base, characters }
+}
+
+export function countHashes(db: CharacterHashDb) {
+  return Object.values(db.characters).reduce((n, e) => n + e.hashes.length, 0)
+}
+
+// Database names mapped onto the existing character folders ("ZhuYuan" folder <- "Zhu Yuan" entry)
+export function resolveDbCharacter(name: string, entry: CharacterHashEntry, folders: string[]) {
+  const keys = [name, ...(entry.aliases || [])].map(normalizeKeyword)
+  return folders.find((f) => keys.includes(normalizeKeyword(f))) || name
+}
+
+export function addDbToHashIndex(index: HashIndex, db: CharacterHashDb, folders: string[]) {
+  for (const [name, entry] of Object.entries(db.characters)) addToHashIndex(index, resolveDbCharacter(name, entry, folders), entry.hashes)
+}
+
+// Keywords for name matching: every resolved character with its aliases
+export function dbAliases(db: CharacterHashDb, folders: string[]): Map<string, string[]> {
+  const out = new Map<string, string[]>()
+  for (const [name, entry] of Object.entries(db.characters)) {
+    const character = resolveDbCharacter(name, entry, folders)
+    out.set(character, Array.from(new Set([...(out.get(character) || []), name, ...(entry.aliases || [])])))
+  }
+  return out
+}
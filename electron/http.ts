@@ -0,0 +1,151 @@
+import https from 'node:https'
+import http from 'node:http'
+import fs from 'node:fs'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+
+// --------------------------- HTTP client ---------------------------
+// Remote sources (GameBanana...) talk to the network through this interface so they can be pointed
+// at a local stand-in server, or replaced entirely, without touching the callers.
+
+export type HttpClient = {
+  getJson(url: string): Promise<unknown> // callers narrow the parsed JSON themselves
+}
+
+export type JsonObject = Record<string, unknown>
+
+// Parsed JSON is untrusted: anything that is not an object reads as an empty one
+export const asJsonObject = (v: unknown): JsonObject => (v && typeof v === 'object' && !Array.isArray(v) ? (v as JsonObject) : {})
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)'
+const MAX_REDIRECTS = 5
+const TIMEOUT_MS = 20000
+
+function getText(url: string, timeoutMs: number, redirects = 0): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const lib = url.startsWith('https:') ? https : http
+    const req = lib.get(url, { headers: { 'User-Agent': USER_AGENT, Accept: 'application/json' } }, (res) => {
+      const status = res.statusCode || 0
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume()
+        if (redirects >= MAX_REDIRECTS) { reject(new Error('Too many redirects')); return }
+        getText(new URL(res.headers.location, url).toString(), timeoutMs, redirects + 1).then(resolve, reject)
+        return
+      }
+      if (status !== 200) {
+        res.resume()
+        reject(new Error(`HTTP ${status} for ${url}`))
+        return
+      }
+      const chunks: Buffer[] = []
+      res.on('data', (c: Buffer) => chunks.push(c))
+      res.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')))
+      res.on('error', reject)
+    })
+    req.setTimeout(timeoutMs, () => req.destroy(new Error(`Timeout for ${url}`)))
+    req.on('error', reject)
+  })
+}
+
+// `timeoutMs` applies to each request while it waits for data
+export function createHttpClient(timeoutMs = TIMEOUT_MS): HttpClient {
+  return {
+    async getJson(url: string) {
+      return JSON.parse(await getText(url, timeoutMs)) as unknown
+    },
+  }
+}
+
+export const nodeHttpClient = createHttpClient()
+
+export type DownloadProgress = {
+  received: number
+  total: number // 0 when the server sends no Content-Length
+}
+
+export type DownloadOptions = {
+  signal?: AbortSignal
+  onProgress?: (p: DownloadProgress) => void
+  onFileName?: (name: string) => void
+}
+
+// "attachment; filename*=UTF-8''Mod%20v2.zip" / 'attachment; filename="Mod v2.zip"'
+export function fileNameFromContentDisposition(header: string | undefined): string | null {
+  if (!header) return null
+  const star = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header)
+  if (star) {
+    try { return decodeURIComponent(star[1].trim().replace(/^"|"$/g, '')) } catch { /* bad escape: try filename= */ }
+  }
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(header)
+  if (plain) return (plain[2] ?? plain[1]).trim()
+  return null
+}
+
+// Keep only the base name and drop characters Windows does not allow in file names
+export function sanitizeFileName(name: string) {
+  const base = name.split(/[\\/]/).pop() || ''
+  const clean = Array.from(base, (c) => (c.charCodeAt(0) < 32 ? '_' : c)).join('')
+    .replace(/[<>:"|?*]/g, '_')
+    .replace(/^\.+/, '')
+    .trim()
+  return clean || 'download'
+}
+
+// Download `url` into destDir following redirects. The file name comes from Content-Disposition,
+// then from the final URL. Data goes to a .part file that is renamed once complete.
+export function downloadFile(url: string, destDir: string, opts: DownloadOptions = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const fail = (e: Error) => reject(e)
+    const request = (current: string, redirects: number) => {
+      if (opts.signal?.aborted) { fail(new Error('Cancelled')); return }
+      const lib = current.startsWith('https:') ? https : http
+      const req = lib.get(current, { headers: { 'User-Agent': USER_AGENT } }, (res) => {
+        const status = res.statusCode || 0
+        if (status >= 300 && status < 400 && res.headers.location) {
+          res.resume()
+          if (redirects >= MAX_REDIRECTS) { fail(new Error('Too many redirects')); return }
+          request(new URL(res.headers.location, current).toString(), redirects + 1)
+          return
+        }
+        if (status !== 200) {
+          res.resume()
+          fail(new Error(`HTTP ${status}`))
+          return
+        }
+        let name = fileNameFromContentDisposition(res.headers['content-disposition'])
+        if (!name) {
+          try { name = decodeURIComponent(path.basename(new URL(current).pathname)) } catch { name = null }
+        }
+        const fileName = sanitizeFileName(name || 'download')
+        opts.onFileName?.(fileName)
+        const finalPath = path.join(destDir, fileName)
+        const partPath = finalPath + '.part'
+        const total = Number(res.headers['content-length']) || 0
+        let received = 0
+        const out = fs.createWriteStream(partPath)
+        const cleanup = (e: Error) => {
+          res.destroy()
+          out.destroy()
+          fsp.rm(partPath, { force: true }).finally(() => fail(e))
+        }
+        opts.signal?.addEventListener('abort', () => cleanup(new Error('Cancelled')), { once: true })
+        res.on('data', (chunk: Buffer) => {
+          received += chunk.length
+          opts.onProgress?.({ received, total })
+        })
+        res.on('error', cleanup)
+        out.on('error', cleanup)
+        out.on('finish', () => {
+          if (opts.signal?.aborted) return
+          if (total && received < total) { cleanup(new Error('Connection closed before the download finished')); return }
+          fsp.rename(partPath, finalPath).then(() => resolve(finalPath), fail)
+        })
+        res.pipe(out)
+      })
+      req.setTimeout(TIMEOUT_MS, () => req.destroy(new Error('Timeout')))
+      req.on('error', fail)
+      opts.signal?.addEventListener('abort', () => req.destroy(new Error('Cancelled')), { once: true })
+    }
+    fsp.mkdir(destDir, { recursive: true }).then(() => request(url, 0), fail)
+  })
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { isActiveIniFile, parseIni, replaceIniValue, sectionKind, summarizeIni } from './ini'
+
+const MOD_INI = [
+  '﻿namespace = Ellen\\Maid',
+  '; full-line comment',
+  '[Constants]',
+  'global persist $swapvar = 0',
+  'global $active = 1',
+  '$plain',
+  '',
+  '[KeySwap]',
+  'condition = $active == 1',
+  'key = VK_F5 ; cycle outfits',
+  'back = ',
+  'type = Cycle',
+  '$swapvar = 0,1, 2',
+  '',
+  '[TextureOverrideEllenBody]',
+  'hash = 1A2B3C4D\t; body',
+  'match_first_index = 0',
+  'if $active',
+  'ib = ResourceBodyIB',
+  'endif',
+  '',
+  '[DISABLED_TextureOverrideEllenHair]',
+  'hash = deadbeef',
+].join('\r\n')
+
+describe('parseIni', () => {
+  const parsed = parseIni(MOD_INI)
+
+  it('reads the namespace before the first section', () => {
+    expect(parsed.namespace).toBe('Ellen\\Maid')
+  })
+
+  it('keeps sections in order with their kind and line', () => {
+    expect(parsed.sections.map((s) => [s.name, s.kind, s.line])).toEqual([
+      ['Constants', 'constants', 2],
+      ['KeySwap', 'key', 7],
+      ['TextureOverrideEllenBody', 'textureOverride', 14],
+      ['DISABLED_TextureOverrideEllenHair', 'other', 21],
+    ])
+  })
+
+  it('strips inline comments preceded by whitespace', () => {
+    const key = parsed.sections[1].entries.find((e) => e.key === 'key')
+    expect(key).toEqual({ key: 'key', value: 'VK_F5', line: 9 })
+    expect(parsed.sections[2].entries.find((e) => e.key === 'hash')?.value).toBe('1A2B3C4D')
+    expect(parseIni('[Present]\nrun = CommandList;Foo').sections[0].entries[0].value).toBe('CommandList;Foo')
+  })
+
+  it('keeps entries without a value and bare statements', () => {
+    expect(parsed.sections[1].entries.find((e) => e.key === 'back')?.value).toBe('')
+    expect(parsed.sections[2].entries.map((e) => e.key)).toEqual(['hash', 'match_first_index', 'if $active', 'ib', 'endif'])
+  })
+})
+
+describe('summarizeIni', () => {
+  const summary = summarizeIni('mod.ini', parseIni(MOD_INI))
+
+  it('collects [Constants] variables with their modifiers', () => {
+    expect(summary.variables).toEqual([
+      { file: 'mod.ini', name: '$swapvar', initial: '0', global: true, persist: true },
+      { file: 'mod.ini', name: '$active', initial: '1', global: true, persist: false },
+      { file: 'mod.ini', name: '$plain', initial: undefined, global: false, persist: false },
+    ])
+  })
+
+  it('collects key bindings and the variables they cycle', () => {
+    expect(summary.keys).toEqual([{
+      file: 'mod.ini',
+      section: 'KeySwap',
+      line: 9,
+      key: 'VK_F5',
+      back: '',
+      type: 'cycle',
+      condition: '$active == 1',
+      variables: [{ name: '$swapvar', values: ['0', '1', '2'] }],
+    }])
+  })
+
+  it('keeps a key section whose key is empty', () => {
+    const keys = summarizeIni('a.ini', parseIni('[KeyToggle]\nkey =\n$x = 0,1')).keys
+    expect(keys).toHaveLength(1)
+    expect(keys[0].key).toBe('')
+  })
+
+  it('ignores overrides in DISABLED sections', () => {
+    expect(summary.hashes).toEqual([
+      { file: 'mod.ini', section: 'TextureOverrideEllenBody', kind: 'texture', hash: '1a2b3c4d', matchFirstIndex: '0' },
+    ])
+    expect(sectionKind('DISABLED_KeySwap')).toBe('other')
+  })
+})
+
+describe('isActiveIniFile', () => {
+  it('skips DISABLED files and files inside DISABLED folders', () => {
+    expect(isActiveIniFile('Ellen/mod.ini')).toBe(true)
+    expect(isActiveIniFile('Ellen/DISABLED_mod.ini')).toBe(false)
+    expect(isActiveIniFile('DISABLED Ellen\\mod.ini')).toBe(false)
+    expect(isActiveIniFile('Ellen/readme.txt')).toBe(false)
+  })
+})
+
+describe('replaceIniValue', () => {
+  it('keeps spacing, the inline comment and the line ending', () => {
+    const text = MOD_INI
+    const out = replaceIniValue(text, 9, 'key', 'ctrl VK_F6')
+    expect(out.split('\r\n')[9]).toBe('key = ctrl VK_F6 ; cycle outfits')
+    expect(out.split('\r\n').length).toBe(text.split('\r\n').length)
+  })
+
+  it('refuses a line that no longer holds the entry', () => {
+    expect(() => replaceIniValue(MOD_INI, 8, 'key', 'VK_F6')).toThrow('is not a "key" entry')
+  })
+})
@@ -0,0 +1,235 @@
+// --------------------------- 3DMigoto / ZZMI .ini parser ---------------------------
+// Parses the subset of 3DMigoto ini syntax the manager cares about: sections, `key = value`
+// entries, `$variables` (declared in [Constants], cycled in [Key*]) and the top-level `namespace`.
+// Command-list logic (if/else/endif, run = ...) is kept as raw entries, not evaluated.
+
+export type IniSectionKind = 'textureOverride' | 'shaderOverride' | 'key' | 'constants' | 'resource' | 'commandList' | 'present' | 'other'
+
+export type IniEntry = {
+  key: string // lower-cased left side ('hash', 'key', '$swapvar', 'global persist $swapvar'...)
+  value: string
+  line: number // 0-based line in the file
+}
+
+export type IniSection = {
+  name: string
+  kind: IniSectionKind
+  line: number
+  entries: IniEntry[]
+}
+
+export type ParsedIni = {
+  namespace?: string
+  sections: IniSection[]
+}
+
+export type IniHashOverride = {
+  file: string
+  section: string
+  kind: 'texture' | 'shader'
+  hash: string
+  matchFirstIndex?: string
+}
+
+export type IniKeyBinding = {
+  file: string
+  section: string
+  line: number // line of the `key =` entry, used when rebinding
+  key: string
+  back?: string
+  type?: string // cycle | toggle | hold | activate
+  condition?: string
+  variables: Array<{ name: string; values: string[] }>
+}
+
+export type IniVariable = {
+  file: string
+  name: string
+  initial?: string
+  global: boolean
+  persist: boolean
+}
+
+export type IniSummary = {
+  files: string[]
+  namespaces: string[]
+  hashes: IniHashOverride[]
+  keys: IniKeyBinding[]
+  variables: IniVariable[]
+  sectionCounts: Partial<Record<IniSectionKind, number>>
+}
+
+export function sectionKind(name: string): IniSectionKind {
+  const n = name.toLowerCase()
+  if (n.startsWith('textureoverride')) return 'textureOverride'
+  if (n.startsWith('shaderoverride')) return 'shaderOverride'
+  if (n.startsWith('key')) return 'key'
+  if (n === 'constants') return 'constants'
+  if (n.startsWith('resource')) return 'resource'
+  if (n.startsWith('commandlist')) return 'commandList'
+  if (n === 'present') return 'present'
+  return 'other'
+}
+
+export function parseIni(text: string): ParsedIni {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const result: ParsedIni = { sections: [] }
+  let cur: IniSection | null = null
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line || line.startsWith(';')) continue
+    const header = /^\[([^\]]+)\]/.exec(line)
+    if (header) {
+      const name = header[1].trim()
+      cur = { name, kind: sectionKind(name), line: i, entries: [] }
+      result.sections.push(cur)
+      continue
+    }
+    const eq = line.indexOf('=')
+    if (eq <= 0) {
+      // Bare command-list statements (endif, else, run without value...)
+      if (cur) cur.entries.push({ key: line.toLowerCase(), value: '', line: i })
+      continue
+    }
+    const key = line.slice(0, eq).trim().replace(/\s+/g, ' ').toLowerCase()
+    const value = stripInlineComment(line.slice(eq + 1)).trim()
+    if (!cur) {
+      if (key === 'namespace') result.namespace = value
+      continue
+    }
+    cur.entries.push({ key, value, line: i })
+  }
+  return result
+}
+
+// 3DMigoto itself only treats ';' at the start of a line as a comment, yet mods commonly append
+// notes after a value ("hash = 1a2b3c4d ; body"). The manager drops everything from a ';' preceded
+// by whitespace, so summaries and key comparisons see the bare value.
+function inlineCommentStart(v: string) {
+  const m = /\s;/.exec(v)
+  return m ? m.index : -1
+}
+
+function stripInlineComment(v: string) {
+  const idx = inlineCommentStart(v)
+  return idx >= 0 ? v.slice(0, idx) : v
+}
+
+export function summarizeIni(file: string, parsed: ParsedIni): IniSummary {
+  const summary: IniSummary = { files: [file], namespaces: parsed.namespace ? [parsed.namespace] : [], hashes: [], keys: [], variables: [], sectionCounts: {} }
+  for (const section of parsed.sections) {
+    summary.sectionCounts[section.kind] = (summary.sectionCounts[section.kind] || 0) + 1
+    const get = (k: string) => section.entries.find((e) => e.key === k)
+    if (section.kind === 'textureOverride' || section.kind === 'shaderOverride') {
+      const hash = get('hash')
+      if (hash?.value) {
+        summary.hashes.push({
+          file,
+          section: section.name,
+          kind: section.kind === 'textureOverride' ? 'texture' : 'shader',
+          hash: hash.value.toLowerCase(),
+          matchFirstIndex: get('match_first_index')?.value,
+        })
+      }
+    } else if (section.kind === 'key') {
+      const key = get('key')
+      if (!key) continue
+      summary.keys.push({
+        file,
+        section: section.name,
+        line: key.line,
+        key: key.value,
+        back: get('back')?.value,
+        type: get('type')?.value?.toLowerCase(),
+        condition: get('condition')?.value,
+        variables: section.entries
+          .filter((e) => e.key.startsWith('$'))
+          .map((e) => ({ name: e.key, values: e.value.split(',').map((v) => v.trim()).filter(Boolean) })),
+      })
+    } else if (section.kind === 'constants') {
+      for (const e of section.entries) {
+        // e.g. "global persist $swapvar = 0", "global $active = 1"
+        const m = /^((?:global|persist|\s)*)(\$[\w.]+)$/.exec(e.key)
+        if (!m) continue
+        const mods = m[1]
+        summary.variables.push({ file, name: m[2], initial: e.value || undefined, global: /global/.test(mods), persist: /persist/.test(mods) })
+      }
+    }
+  }
+  return summary
+}
+
+export function mergeIniSummaries(list: IniSummary[]): IniSummary {
+  const merged: IniSummary = { files: [], namespaces: [], hashes: [], keys: [], variables: [], sectionCounts: {} }
+  for (const s of list) {
+    merged.files.push(...s.files)
+    for (const ns of s.namespaces) if (!merged.namespaces.includes(ns)) merged.namespaces.push(ns)
+    merged.hashes.push(...s.hashes)
+    merged.keys.push(...s.keys)
+    merged.variables.push(...s.variables)
+    for (const [k, v] of Object.entries(s.sectionCounts)) {
+      const kind = k as IniSectionKind
+      merged.sectionCounts[kind] = (merged.sectionCounts[kind] || 0) + (v || 0)
+    }
+  }
+  return merged
+}
+
+// Replace the value of the `name = value` entry at `line` (as reported by parseIni), keeping the
+// indentation, spacing, trailing comment and line ending. Throws when that line no longer holds
+// the entry, e.g. the file was edited since it was parsed.
+export function replaceIniValue(text: string, line: number, name: string, value: string): string {
+  const lines = text.split('\n')
+  const raw = lines[line]
+  if (raw === undefined) throw new Error(`Line ${line + 1} not found`)
+  const cr = raw.endsWith('\r') ? '\r' : ''
+  const body = cr ? raw.slice(0, -1) : raw
+  const m = /^(\s*)([^=]+?)(\s*=\s*)(.*)$/.exec(body)
+  if (!m || m[2].trim().toLowerCase() !== name.toLowerCase()) throw new Error(`Line ${line + 1} is not a "${name}" entry`)
+  const idx = inlineCommentStart(m[4])
+  const comment = idx >= 0 ? m[4].slice(idx) : ''
+  lines[line] = m[1] + m[2] + m[3] + value + comment + cr
+  return lines.join('\n')
+}
+
+// Normalized form of a key binding for comparisons: "Ctrl  VK_F5" and "vk_f5 ctrl" are the same key
+export function normalizeKeyBinding(key: string) {
+  return key.toLowerCase().split(/\s+/).filter(Boolean).sort().join(' ')
+}
+
+// 3DMigoto skips any .ini (or folder) whose name starts with DISABLED
+export function isActiveIniFile(relPath: string) {
+  const parts = relPath.split(/[\\/]/).filter(Boolean)
+  return /\.ini$/i.test(parts[parts.length - 1] || '') && !parts.some((p) => /^DISABLED/i.test(p))
+}
+
+export type HashCollision<T> = {
+  hash: string
+  matchFirstIndex?: string
+  owners: Array<{ owner: T; file: string; section: string }>
+}
+
+// Group texture overrides by hash (+ match_first_index, which narrows the override to one part of
+// the buffer) and keep the ones claimed by more than one owner. `id` identifies an owner so
+// several sections of the same mod overriding one hash do not count as a collision.
+export function findHashCollisions<T>(list: Array<{ id: string; owner: T; summary: IniSummary }>): HashCollision<T>[] {
+  const groups = new Map<string, { collision: HashCollision<T>; ids: Set<string> }>()
+  for (const { id, owner, summary } of list) {
+    for (const h of summary.hashes) {
+      if (h.kind !== 'texture') continue
+      const gk = `${h.hash}|${h.matchFirstIndex ?? ''}`
+      let g = groups.get(gk)
+      if (!g) {
+        g = { collision: { hash: h.hash, matchFirstIndex: h.matchFirstIndex, owners: [] }, ids: new Set() }
+        groups.set(gk, g)
+      }
+      if (g.ids.has(id)) continue
+      g.ids.add(id)
+      g.collision.owners.push({ owner, file: h.file, section: h.section })
+    }
+  }
+  return Array.from(groups.values())
+    .filter((g) => g.ids.size > 1)
+    .map((g) => g.collision)
+    .sort((a, b) => a.hash.localeCompare(b.hash))
+}
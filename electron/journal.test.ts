@@ -0,0 +1,102 @@
+import fs from 'node:fs'
+import fsp from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { recoverRenameJournal, runRenameTransaction } from './journal'
+
+let root = ''
+let journalPath = ''
+
+const at = (name: string) => path.join(root, name)
+
+async function makeDirs(...names: string[]) {
+  for (const name of names) await fsp.mkdir(at(name), { recursive: true })
+}
+
+beforeEach(async () => {
+  root = await fsp.mkdtemp(path.join(os.tmpdir(), 'journal-test-'))
+  journalPath = at('state/rename-journal.json')
+})
+
+afterEach(async () => {
+  await fsp.rm(root, { recursive: true, force: true })
+})
+
+describe('runRenameTransaction', () => {
+  it('applies every step and removes the journal', async () => {
+    await makeDirs('A', 'B')
+    await runRenameTransaction(journalPath, 'Swap', [{ from: at('A'), to: at('DISABLED_A') }, { from: at('B'), to: at('C') }])
+    expect(fs.existsSync(at('DISABLED_A'))).toBe(true)
+    expect(fs.existsSync(at('C'))).toBe(true)
+    expect(fs.existsSync(at('A'))).toBe(false)
+    expect(fs.existsSync(journalPath)).toBe(false)
+  })
+
+  it('rolls back the applied steps when a step fails mid-plan', async () => {
+    await makeDirs('A', 'B')
+    // The second target's parent does not exist, which the plan check does not catch
+    const steps = [{ from: at('A'), to: at('A2') }, { from: at('B'), to: at('missing/B2') }]
+    await expect(runRenameTransaction(journalPath, 'Move', steps)).rejects.toThrow('Move failed and was rolled back')
+    expect(fs.existsSync(at('A'))).toBe(true)
+    expect(fs.existsSync(at('A2'))).toBe(false)
+    expect(fs.existsSync(at('B'))).toBe(true)
+    expect(fs.existsSync(journalPath)).toBe(false)
+  })
+
+  it('touches nothing when a target is already taken', async () => {
+    await makeDirs('A', 'B', 'C')
+    const steps = [{ from: at('A'), to: at('A2') }, { from: at('B'), to: at('C') }]
+    await expect(runRenameTransaction(journalPath, 'Move', steps)).rejects.toThrow('Target already exists')
+    expect(fs.existsSync(at('A'))).toBe(true)
+    expect(fs.existsSync(at('A2'))).toBe(false)
+    expect(fs.existsSync(journalPath)).toBe(false)
+  })
+
+  it('allows a target freed by an earlier step', async () => {
+    await makeDirs('A', 'B')
+    await runRenameTransaction(journalPath, 'Rotate', [{ from: at('A'), to: at('A2') }, { from: at('B'), to: at('A') }])
+    expect(fs.existsSync(at('A2'))).toBe(true)
+    expect(fs.existsSync(at('A'))).toBe(true)
+    expect(fs.existsSync(at('B'))).toBe(false)
+  })
+})
+
+describe('recoverRenameJournal', () => {
+  const writeJournal = async (journal: object) => {
+    await fsp.mkdir(path.dirname(journalPath), { recursive: true })
+    await fsp.writeFile(journalPath, JSON.stringify(journal), 'utf-8')
+  }
+
+  it('rolls back a transaction interrupted mid-way', async () => {
+    // Step one was applied and recorded, step two was applied but the app died before recording it
+    await makeDirs('A2', 'B2', 'C')
+    await writeJournal({
+      label: 'Activate',
+      createdAt: new Date().toISOString(),
+      steps: [{ from: at('A'), to: at('A2'), done: true }, { from: at('B'), to: at('B2') }, { from: at('C'), to: at('C2') }],
+    })
+    expect(await recoverRenameJournal(journalPath)).toBe('Activate')
+    expect(fs.existsSync(at('A'))).toBe(true)
+    expect(fs.existsSync(at('B'))).toBe(true)
+    expect(fs.existsSync(at('C'))).toBe(true)
+    expect(fs.existsSync(at('A2'))).toBe(false)
+    expect(fs.existsSync(journalPath)).toBe(false)
+  })
+
+  it('only removes a committed journal', async () => {
+    await makeDirs('A2')
+    await writeJournal({ label: 'Activate', createdAt: new Date().toISOString(), steps: [{ from: at('A'), to: at('A2'), done: true }], committed: true })
+    expect(await recoverRenameJournal(journalPath)).toBeNull()
+    expect(fs.existsSync(at('A2'))).toBe(true)
+    expect(fs.existsSync(at('A'))).toBe(false)
+    expect(fs.existsSync(journalPath)).toBe(false)
+  })
+
+  it('ignores a missing or malformed journal', async () => {
+    expect(await recoverRenameJournal(journalPath)).toBeNull()
+    await writeJournal({ label: 'Broken' })
+    expect(await recoverRenameJournal(journalPath)).toBeNull()
+    expect(fs.existsSync(journalPath)).toBe(false)
+  })
+})
@@ -0,0 +1,138 @@
+import path from 'node:path'
+import fs from 'node:fs'
+import fsp from 'node:fs/promises'
+
+// --------------------------- Rename journal ---------------------------
+// Multi-rename operations (exclusive activation, enable/disable, character renames, name
+// normalization) are planned up front, written to a journal file and then applied one step at a
+// time. If a step fails, the steps already applied are undone in reverse order. If the app dies
+// mid-way, the journal is still on disk and recoverRenameJournal() rolls it back on next start.
+
+export type RenameStep = {
+  from: string
+  to: string
+  done?: boolean
+}
+
+type Journal = {
+  label: string
+  createdAt: string
+  steps: RenameStep[]
+  committed?: boolean // every step applied: recovery only deletes the journal
+}
+
+// Windows and macOS volumes are usually case-insensitive: "Foo" and "foo" are the same entry
+const caseInsensitive = process.platform === 'win32' || process.platform === 'darwin'
+
+function pathKey(p: string) {
+  const r = path.resolve(p)
+  return caseInsensitive ? r.toLowerCase() : r
+}
+
+// Steps for renaming `from` to `to`. A case-only change goes through a temporary name,
+// which case-insensitive file systems need.
+export function renameSteps(from: string, to: string): RenameStep[] {
+  if (from === to) return []
+  if (pathKey(from) === pathKey(to)) {
+    const temp = path.join(path.dirname(from), `${path.basename(from)}__tmp__${Date.now()}`)
+    return [{ from, to: temp }, { from: temp, to }]
+  }
+  return [{ from, to }]
+}
+
+// Check the plan against the current disk state, simulating earlier steps, so nothing is touched
+// when a source is missing or a target is already taken.
+function validatePlan(steps: RenameStep[]) {
+  const created = new Set<string>()
+  const removed = new Set<string>()
+  const exists = (p: string) => {
+    const k = pathKey(p)
+    if (created.has(k)) return true
+    if (removed.has(k)) return false
+    return fs.existsSync(p)
+  }
+  for (const step of steps) {
+    if (!exists(step.from)) throw new Error(`Source does not exist: ${step.from}`)
+    if (exists(step.to)) throw new Error(`Target already exists: ${step.to}`)
+    removed.add(pathKey(step.from))
+    created.delete(pathKey(step.from))
+    created.add(pathKey(step.to))
+    removed.delete(pathKey(step.to))
+  }
+}
+
+async function writeJournal(journalPath: string, journal: Journal) {
+  await fsp.mkdir(path.dirname(journalPath), { recursive: true })
+  await fsp.writeFile(journalPath, JSON.stringify(journal, null, 2), 'utf-8')
+}
+
+// Undo applied steps in reverse order. A step whose rename happened but was not yet marked done
+// (crash between rename and journal write) is detected by its target existing without its source.
+async function rollback(journal: Journal) {
+  const applied = journal.steps.filter((s) => s.done || (!fs.existsSync(s.from) && fs.existsSync(s.to)))
+  for (const step of applied.reverse()) {
+    if (fs.existsSync(step.to) && !fs.existsSync(step.from)) {
+      await fsp.rename(step.to, step.from)
+    }
+  }
+}
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e))
+
+// Serialize transactions: two overlapping plans would validate against stale disk state
+let queue: Promise<unknown> = Promise.resolve()
+
+export function runRenameTransaction(journalPath: string, label: string, steps: RenameStep[]): Promise<void> {
+  const run = async () => {
+    if (steps.length === 0) return
+    validatePlan(steps)
+    const journal: Journal = { label, createdAt: new Date().toISOString(), steps: steps.map((s) => ({ from: s.from, to: s.to })) }
+    await writeJournal(journalPath, journal)
+    try {
+      for (const step of journal.steps) {
+        await fsp.rename(step.from, step.to)
+        step.done = true
+        await writeJournal(journalPath, journal)
+      }
+    } catch (e) {
+      try {
+        await rollback(journal)
+      } catch (re) {
+        // Leave the journal in place; startup recovery will try again
+        throw new Error(`${label} failed (${errorMessage(e)}) and could not be rolled back: ${errorMessage(re)}`)
+      }
+      try { await fsp.unlink(journalPath) } catch { /* rolled back: a stale journal only repeats a no-op rollback */ }
+      throw new Error(`${label} failed and was rolled back: ${errorMessage(e)}`)
+    }
+    // Mark it committed before removing it: a journal left behind must not be rolled back on the next
+    // start. Only when neither write nor removal works is the caller told.
+    journal.committed = true
+    let marked = true
+    try { await writeJournal(journalPath, journal) } catch { marked = false }
+    try {
+      await fsp.rm(journalPath, { force: true })
+    } catch (e) {
+      if (!marked) throw new Error(`${label} was applied but its journal could not be cleared: ${errorMessage(e)}`)
+    }
+  }
+  const p = queue.then(run, run)
+  queue = p.catch(() => {})
+  return p
+}
+
+// Roll back an interrupted transaction left by a crash. Returns its label when something was recovered.
+export async function recoverRenameJournal(journalPath: string): Promise<string | null> {
+  let journal: Journal
+  try {
+    journal = JSON.parse(await fsp.readFile(journalPath, 'utf-8'))
+  } catch {
+    return null
+  }
+  if (!journal || !Array.isArray(journal.steps) || journal.committed) {
+    try { await fsp.unlink(journalPath) } catch { /* unreadable or committed journal: nothing to recover */ }
+    return null
+  }
+  await rollback(journal)
+  await fsp.unlink(journalPath)
+  return journal.label || 'rename'
+}
@@ -0,0 +1,40 @@
+// --------------------------- syleaf-mm:// links ---------------------------
+// One-click install links from mod sites:
+//   syleaf-mm://install?url=<archive>&page=<mod page>&character=<name>
+// On Windows/Linux the link arrives as a command line argument (first launch or second instance),
+// on macOS through the open-url event.
+
+export const LINK_SCHEME = 'syleaf-mm'
+
+export type InstallLink = {
+  url: string // archive to download
+  page?: string
+  character?: string
+}
+
+export function parseInstallLink(raw: string): InstallLink | null {
+  let u: URL
+  try { u = new URL(raw) } catch { return null }
+  if (u.protocol !== `${LINK_SCHEME}:`) return null
+  // "syleaf-mm://install?..." puts the action in the host; "syleaf-mm:install?..." in the path
+  const action = (u.hostname || u.pathname).replace(/^\/+|\/+$/g, '').toLowerCase()
+  if (action !== 'install') return null
+  const url = (u.searchParams.get('url') || '').trim()
+  if (!/^https?:\/\//i.test(url)) return null
+  const page = (u.searchParams.get('page') || '').trim()
+  const character = (u.searchParams.get('character') || '').trim()
+  return {
+    url,
+    page: /^https?:\/\//i.test(page) ? page : undefined,
+    character: character || undefined,
+  }
+}
+
+export function findInstallLink(argv: string[]): InstallLink | null {
+  for (const arg of argv) {
+    if (!arg.toLowerCase().startsWith(`${LINK_SCHEME}:`)) continue
+    const link = parseInstallLink(arg)
+    if (link) return link
+  }
+  return null
+}
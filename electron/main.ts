@@ -1,13 +1,27 @@
-import { app, BrowserWindow, ipcMain, dialog, shell, Menu } from 'electron'
+import { app, BrowserWindow, ipcMain, dialog, shell, Menu, protocol, nativeImage } from 'electron'
 import { createRequire } from 'node:module'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import fs from 'node:fs'
 import fsp from 'node:fs/promises'
 import os from 'node:os'
+import crypto from 'node:crypto'
 import https from 'node:https'
 import http from 'node:http'
 import { spawn } from 'node:child_process'
+import { RenameStep, renameSteps, runRenameTransaction, recoverRenameJournal } from './journal'
+import { JsonObject, asJsonObject, nodeHttpClient } from './http'
+import { createDownloadQueue } from './downloads'
+import { InstallLink, LINK_SCHEME, findInstallLink, parseInstallLink } from './links'
+import { CharacterSuggestion, HashIndex, buildHashIndex, suggestCharacter } from './sorting'
+import { ArchiveEntry, checkArchiveEntries, isUnsafeEntryPath, parseSltListing } from './archives'
+import { findVariants, variantName } from './variants'
+import { matchModEntry } from './modnames'
+import { countTags, hasTag, normalizeTags, replaceTag } from './tags'
+import { CharacterHashDb, addDbToHashIndex, countHashes, dbAliases, emptyCharacterHashDb, mergeCharacterHashDbs, parseCharacterHashDb } from './hashdb'
+import { InstallRecord, RemoteFile, UpdateCheckResult, checkForUpdate, gameBananaSource } from './updates'
+import { fetchGameBananaMod, parseGameBananaUrl } from './gamebanana'
+import { IniSummary, parseIni, summarizeIni, mergeIniSummaries, isActiveIniFile, findHashCollisions, replaceIniValue, normalizeKeyBinding } from './ini'
 
 const require = createRequire(import.meta.url)
 // Lazy require for CJS packages (after createRequire defined)
@@ -126,13 +140,66 @@ function createSplashWindow() {
   try { splash.loadFile(splashPath) } catch {}
 }
 
+// A second launch (e.g. from a syleaf-mm:// link) hands its arguments to the running instance and exits
+const gotSingleInstanceLock = app.requestSingleInstanceLock()
+if (!gotSingleInstanceLock) app.quit()
+
+// Install links wait here until the renderer has loaded its data
+let rendererReady = false
+const pendingInstallLinks: InstallLink[] = []
+
+function deliverInstallLink(link: InstallLink) {
+  if (!rendererReady || !win) { pendingInstallLinks.push(link); return }
+  try { win.webContents.send('install-link', link) } catch { /* window closed */ }
+}
+
+function focusMainWindow() {
+  if (!win) return
+  try {
+    if (win.isMinimized()) win.restore()
+    if (win.isVisible()) win.focus()
+  } catch { /* window closed */ }
+}
+
+app.on('second-instance', (_e, argv) => {
+  focusMainWindow()
+  const link = findInstallLink(argv)
+  if (link) deliverInstallLink(link)
+})
+
+// macOS delivers links through open-url (also before ready on a first launch)
+app.on('open-url', (e, url) => {
+  e.preventDefault()
+  const link = parseInstallLink(url)
+  if (link) deliverInstallLink(link)
+  focusMainWindow()
+})
+
+function registerLinkScheme() {
+  try {
+    // In development Electron runs the app through the script path, which must be passed back
+    if (process.defaultApp && process.argv.length >= 2) {
+      app.setAsDefaultProtocolClient(LINK_SCHEME, process.execPath, [path.resolve(process.argv[1])])
+    } else {
+      app.setAsDefaultProtocolClient(LINK_SCHEME)
+    }
+  } catch { /* links stay unregistered; the app works without them */ }
+}
+
 app.whenReady().then(() => {
+  if (!gotSingleInstanceLock) return
+  registerModImageProtocol()
+  registerLinkScheme()
   createSplashWindow()
   createWindow()
+  const link = findInstallLink(process.argv)
+  if (link) deliverInstallLink(link)
 })
 
-// Start FS watcher when modsRoot exists
+// Roll back a rename transaction interrupted by a crash, then start FS watcher when modsRoot exists
 app.whenReady().then(async () => {
+  if (!gotSingleInstanceLock) return
+  try { await recoverRenameJournal(renameJournalPath()) } catch { /* the journal stays: retried on the next start */ }
   const { modsRoot } = await readSettings()
   if (modsRoot) setupWatcher(modsRoot)
 })
@@ -142,15 +209,21 @@ ipcMain.on('renderer:ready', () => {
   try { win?.show() } catch {}
   try { splash?.close() } catch {}
   splash = null
+  rendererReady = true
+  for (const link of pendingInstallLinks.splice(0)) deliverInstallLink(link)
 })
 
 // --------------------------- Helpers ---------------------------
 const userDataDir = () => app.getPath('userData')
 const settingsPath = () => path.join(userDataDir(), 'settings.json')
+const renameJournalPath = () => path.join(userDataDir(), 'rename-journal.json')
 
 type Settings = {
   modsRoot?: string
   imagesRoot?: string
+  trashMaxAgeDays?: number
+  trashMaxSizeMB?: number
+  singleActiveCharacters?: string[] // characters limited to one enabled mod at a time
 }
 
 async function readSettings(): Promise<Settings> {
@@ -187,21 +260,114 @@ function isFile(full: string) {
   }
 }
 
-// Archive extraction supporting zip and 7z/rar via 7zip
-async function extractArchive(archivePath: string, destDir: string) {
+// True when `child` is `root` itself or lives somewhere below it
+function isPathInside(child: string, root: string) {
+  const rel = path.relative(path.resolve(root), path.resolve(child))
+  return rel === '' || (!!rel && !rel.startsWith('..') && !path.isAbsolute(rel))
+}
+
+// Run 7-Zip and collect its output. stdin is closed so an encrypted archive fails instead of
+// waiting forever on the password prompt.
+function runSeven(args: string[], opts: { cwd?: string } = {}): Promise<{ code: number; output: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(getSevenBinary(), args, { cwd: opts.cwd, stdio: ['ignore', 'pipe', 'pipe'] })
+    let output = ''
+    child.stdout.on('data', (d) => output += d.toString())
+    child.stderr.on('data', (d) => output += d.toString())
+    child.on('error', reject)
+    child.on('close', (code) => resolve({ code: code ?? -1, output }))
+  })
+}
+
+const passwordArgs = (password?: string) => (password ? [`-p${password}`] : [])
+
+const WRONG_PASSWORD_RE = /wrong password|can ?not open encrypted archive/i
+const ARCHIVE_EXT_RE = /\.(zip|7z|rar)$/i
+const NESTED_MAX_DEPTH = 3
+// Folder levels searched for archives inside an extracted archive
+const NESTED_ARCHIVE_MAX_DEPTH = 8
+
+// Entries of an archive (`7z l -slt`); throws on password problems and unreadable archives
+async function listArchiveEntries(archivePath: string, password?: string): Promise<ArchiveEntry[]> {
+  const res = await runSeven(['l', '-slt', archivePath, ...passwordArgs(password)])
+  if (res.code !== 0) {
+    if (WRONG_PASSWORD_RE.test(res.output)) throw new Error(password ? 'Wrong password' : 'Password required')
+    throw new Error('Could not read the archive (7zip exit ' + res.code + ')')
+  }
+  return parseSltListing(res.output)
+}
+
+// Refuse archives with entries escaping the destination or over the size/file-count limits
+async function assertSafeArchive(archivePath: string, password?: string) {
+  const check = checkArchiveEntries(await listArchiveEntries(archivePath, password))
+  const block = check.warnings.find((w) => w.blocking)
+  if (!block) return
+  if (block.kind === 'unsafePath') throw new Error(`Unsafe path in archive: ${block.path}`)
+  if (block.kind === 'tooManyFiles') throw new Error(`Too many files in archive (${check.fileCount})`)
+  throw new Error(`Archive too large (${Math.round(check.totalSize / 1024 ** 2)} MB uncompressed)`)
+}
+
+// Encrypted entries ("Encrypted = +") or encrypted headers (listing refused without a password)
+async function isArchiveEncrypted(archivePath: string) {
+  const res = await runSeven(['l', '-slt', archivePath])
+  if (res.code !== 0) return WRONG_PASSWORD_RE.test(res.output) || /encrypted/i.test(res.output)
+  return /^Encrypted = \+/m.test(res.output)
+}
+
+// Archive extraction supporting zip and 7z/rar via 7zip (always 7-Zip when there is a password)
+async function extractArchive(archivePath: string, destDir: string, password?: string) {
+  await assertSafeArchive(archivePath, password)
   await fsp.mkdir(destDir, { recursive: true })
   const ext = path.extname(archivePath).toLowerCase()
-  if (ext === '.zip') {
-    await extractZip(archivePath, { dir: destDir })
-    return
+  if (ext === '.zip' && !password) {
+    try {
+      await extractZip(archivePath, { dir: destDir })
+      return
+    } catch (e) {
+      if (!(e instanceof Error) || !/encrypt/i.test(e.message)) throw e
+      throw new Error('Password required')
+    }
   }
   // Use 7zip for other formats
-  const sevenPath = getSevenBinary()
-  await new Promise<void>((resolve, reject) => {
-    const child = spawn(sevenPath, ['x', archivePath, `-o"${destDir}"`, '-y'])
-    child.on('error', reject)
-    child.on('close', (code) => (code === 0 ? resolve() : reject(new Error('7zip exit ' + code))))
-  })
+  const res = await runSeven(['x', archivePath, `-o"${destDir}"`, '-y', ...passwordArgs(password)])
+  if (res.code === 0) return
+  if (WRONG_PASSWORD_RE.test(res.output)) throw new Error(password ? 'Wrong password' : 'Password required')
+  throw new Error('7zip exit ' + res.code)
+}
+
+// Relative paths of the .zip/.7z/.rar files below dir (archives shipped inside the archive)
+async function findNestedArchives(dir: string, rel = '', depth = 0): Promise<string[]> {
+  if (depth > NESTED_ARCHIVE_MAX_DEPTH) return []
+  let ents: fs.Dirent[] = []
+  try { ents = await fsp.readdir(path.join(dir, rel), { withFileTypes: true }) } catch { return [] }
+  const out: string[] = []
+  for (const e of ents) {
+    const r = rel ? path.join(rel, e.name) : e.name
+    if (e.isDirectory()) out.push(...await findNestedArchives(dir, r, depth + 1))
+    else if (ARCHIVE_EXT_RE.test(e.name)) out.push(r)
+  }
+  return out
+}
+
+// Unpack every nested archive into a folder named after it (next to it) and delete the archive.
+// Repeats for archives found inside those, up to NESTED_MAX_DEPTH levels.
+async function unpackNestedArchives(dir: string, password?: string) {
+  const unpacked: string[] = []
+  for (let level = 0; level < NESTED_MAX_DEPTH; level++) {
+    const nested = await findNestedArchives(dir)
+    if (nested.length === 0) break
+    for (const rel of nested) {
+      const full = path.join(dir, rel)
+      const base = path.basename(rel).replace(ARCHIVE_EXT_RE, '')
+      let target = path.join(path.dirname(full), base)
+      for (let i = 2; fs.existsSync(target); i++) target = path.join(path.dirname(full), `${base} (${i})`)
+      await extractArchive(full, target, password)
+      await flattenSingleTopFolder(target)
+      await fsp.rm(full, { force: true })
+      unpacked.push(rel)
+    }
+  }
+  return unpacked
 }
 
 function setupWatcher(root: string) {
@@ -209,7 +375,8 @@ function setupWatcher(root: string) {
   try {
     watcher = fs.watch(root, { recursive: true }, (() => {
       let t: NodeJS.Timeout | null = null
-      return (_event, _file) => {
+      return (_event, file) => {
+        if (file) invalidateLibraryIndex(root, path.join(root, String(file)))
         if (t) clearTimeout(t)
         t = setTimeout(() => {
           win?.webContents.send('fs-changed', { root })
@@ -266,132 +433,207 @@ ipcMain.handle('images:readDataUrl', async (_e, absPath: string) => {
   }
 })
 
+// --------------------------- modimg:// protocol ---------------------------
+// Serves character images and mod previews straight from disk so the renderer does not keep
+// base64 copies around. `modimg://image/?path=<abs>&w=<px>` returns a downscaled JPEG thumbnail
+// cached in userData/thumbs; without `w` the original file is returned (full-size preview overlay).
+const MODIMG_SCHEME = 'modimg'
+const THUMB_MIN_WIDTH = 64
+const THUMB_MAX_WIDTH = 1024
+const THUMB_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+const thumbCacheDir = () => path.join(userDataDir(), 'thumbs')
+
+protocol.registerSchemesAsPrivileged([
+  { scheme: MODIMG_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true } },
+])
+
+function registerModImageProtocol() {
+  protocol.handle(MODIMG_SCHEME, async (req) => {
+    try {
+      const u = new URL(req.url)
+      const raw = u.searchParams.get('path')
+      if (!raw) return new Response(null, { status: 400 })
+      const abs = path.resolve(raw)
+      if (!/\.(png|jpe?g|webp|gif)$/i.test(abs)) return new Response(null, { status: 403 })
+      const { modsRoot, imagesRoot } = await readSettings()
+      // Flat archive previews are extracted under userData/previews by the library index
+      const allowRoots = [modsRoot, imagesRoot, previewCacheDir()].filter(Boolean) as string[]
+      if (!allowRoots.some((root) => isPathInside(abs, root))) return new Response(null, { status: 403 })
+      const w = parseInt(u.searchParams.get('w') || '', 10)
+      const file = Number.isFinite(w) && w > 0
+        ? await getThumbnail(abs, Math.min(THUMB_MAX_WIDTH, Math.max(THUMB_MIN_WIDTH, w)))
+        : abs
+      const buf = await fsp.readFile(file)
+      return new Response(buf, { headers: { 'Content-Type': guessMimeFromPath(file), 'Cache-Control': 'no-store' } })
+    } catch {
+      return new Response(null, { status: 404 })
+    }
+  })
+  pruneThumbnailCache().catch(() => {})
+}
+
+// Downscale an image to `width` and cache it, keyed by path + mtime + size + width.
+// Falls back to the original when it is already small or nativeImage cannot decode it (e.g. GIF/WebP on some platforms).
+async function getThumbnail(abs: string, width: number): Promise<string> {
+  const st = await fsp.stat(abs)
+  const hash = crypto.createHash('sha1').update(`${abs}|${st.mtimeMs}|${st.size}|${width}`).digest('hex')
+  const out = path.join(thumbCacheDir(), `${hash}.jpg`)
+  if (fs.existsSync(out)) {
+    // Touch so the age-based pruning keeps thumbnails that are still in use
+    const now = new Date()
+    fsp.utimes(out, now, now).catch(() => {})
+    return out
+  }
+  const img = nativeImage.createFromPath(abs)
+  if (img.isEmpty() || img.getSize().width <= width) return abs
+  const resized = img.resize({ width, quality: 'good' })
+  await fsp.mkdir(thumbCacheDir(), { recursive: true })
+  await fsp.writeFile(out, resized.toJPEG(82))
+  return out
+}
+
+async function pruneThumbnailCache() {
+  const dir = thumbCacheDir()
+  let files: string[] = []
+  try { files = await fsp.readdir(dir) } catch { return }
+  const cutoff = Date.now() - THUMB_MAX_AGE_MS
+  for (const f of files) {
+    const full = path.join(dir, f)
+    try {
+      const st = await fsp.stat(full)
+      if (st.mtimeMs < cutoff) await fsp.unlink(full)
+    } catch { /* in use or already gone: next cleanup */ }
+  }
+}
+
+// Extract preview.* from an archive into outDir; returns the extracted file path (or null)
+async function extractArchivePreview(archivePath: string, outDir: string): Promise<string | null> {
+  await fsp.mkdir(outDir, { recursive: true })
+  const sevenPath = getSevenBinary()
+  await new Promise<void>((resolve) => {
+    const child = spawn(sevenPath, ['x', archivePath, 'preview.*', `-o"${outDir}"`, '-y'])
+    child.on('error', () => resolve())
+    child.on('close', () => resolve())
+  })
+  // Find extracted file
+  const candidates = ['preview.png', 'preview.jpg', 'preview.jpeg', 'preview.webp', 'preview.gif']
+  for (const name of candidates) {
+    const full = path.join(outDir, name)
+    if (fs.existsSync(full)) return full
+  }
+  return null
+}
+
 // Read preview.* from inside a mod archive and return as data URL
 ipcMain.handle('mods:getPreviewDataUrl', async (_e, character: string, modName: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) return null
-  const cdir = characterDir(modsRoot, character)
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod || mod.kind !== 'flat') return null
+  const tmpDir = path.join(os.tmpdir(), `zzzmm_prev_${Date.now()}_${Math.random().toString(36).slice(2)}`)
   try {
-    const files = await fsp.readdir(cdir)
-    const target = files.find((f) => /\.(zip|7z|rar)$/i.test(f) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-      || files.find((f) => /\.(zip|7z|rar)$/i.test(f) && f.toLowerCase().includes(modName.toLowerCase()))
-    if (!target) return null
-    const archivePath = path.join(cdir, target)
-    // Extract preview.* to temp dir
-    const tmpDir = path.join(os.tmpdir(), `zzzmm_prev_${Date.now()}_${Math.random().toString(36).slice(2)}`)
-    await fsp.mkdir(tmpDir, { recursive: true })
-    const sevenPath = getSevenBinary()
-    await new Promise<void>((resolve) => {
-      const child = spawn(sevenPath, ['x', archivePath, 'preview.*', `-o"${tmpDir}"`, '-y'])
-      child.on('error', () => resolve())
-      child.on('close', () => resolve())
-    })
-    // Find extracted file
-    const candidates = ['preview.png', 'preview.jpg', 'preview.jpeg', 'preview.webp', 'preview.gif']
-    for (const name of candidates) {
-      const full = path.join(tmpDir, name)
-      if (fs.existsSync(full)) {
-        try {
-          const buf = await fsp.readFile(full)
-          const mime = guessMimeFromPath(full)
-          const base64 = buf.toString('base64')
-          return `data:${mime};base64,${base64}`
-        } catch {}
-      }
-    }
-    try { await fsp.rm(tmpDir, { recursive: true, force: true }) } catch {}
-    return null
+    const full = await extractArchivePreview(mod.path, tmpDir)
+    if (!full) return null
+    const buf = await fsp.readFile(full)
+    const mime = guessMimeFromPath(full)
+    const base64 = buf.toString('base64')
+    return `data:${mime};base64,${base64}`
   } catch {
     return null
+  } finally {
+    try { await fsp.rm(tmpDir, { recursive: true, force: true }) } catch { /* a leftover temp dir is harmless */ }
   }
 })
 
-// Read data file from inside mod archive; supports 'data.txt' (preferred) and legacy 'data'. Returns JSON { pageUrl?, imageUrl? }
+// data.txt holds a JSON object; anything else reads as no data
+const toModData = (v: unknown): JsonObject | null => (v && typeof v === 'object' && !Array.isArray(v) ? (v as JsonObject) : null)
+
+const optionalString = (v: unknown) => (typeof v === 'string' && v ? v : undefined)
+
+// Read data file from a folder mod or from inside a flat archive; supports 'data.txt' (preferred) and legacy 'data'
+async function readModDataFile(mod: ResolvedMod): Promise<JsonObject | null> {
+  if (mod.kind === 'folder') {
+    const dataTxt = path.join(mod.path, 'data.txt')
+    const dataLegacy = path.join(mod.path, 'data')
+    const chosen = fs.existsSync(dataTxt) ? dataTxt : (fs.existsSync(dataLegacy) ? dataLegacy : null)
+    if (!chosen) return null
+    try { return toModData(JSON.parse(await fsp.readFile(chosen, 'utf-8'))) } catch { return null }
+  }
+  const tmpDir = path.join(os.tmpdir(), `zzzmm_data_${Date.now()}_${Math.random().toString(36).slice(2)}`)
+  await fsp.mkdir(tmpDir, { recursive: true })
+  const sevenPath = getSevenBinary()
+  // Try extracting 'data.txt' first, then legacy 'data'
+  await new Promise<void>((resolve) => {
+    const child = spawn(sevenPath, ['x', mod.path, 'data.txt', `-o"${tmpDir}"`, '-y'])
+    child.on('error', () => resolve())
+    child.on('close', () => resolve())
+  })
+  await new Promise<void>((resolve) => {
+    const child = spawn(sevenPath, ['x', mod.path, 'data', `-o"${tmpDir}"`, '-y'])
+    child.on('error', () => resolve())
+    child.on('close', () => resolve())
+  })
+  const dataTxt = path.join(tmpDir, 'data.txt')
+  const dataLegacy = path.join(tmpDir, 'data')
+  let json: JsonObject | null = null
+  const chosen = fs.existsSync(dataTxt) ? dataTxt : (fs.existsSync(dataLegacy) ? dataLegacy : null)
+  if (chosen) {
+    try {
+      const raw = await fsp.readFile(chosen, 'utf-8')
+      json = toModData(JSON.parse(raw))
+    } catch {
+      try { json = toModData(JSON.parse(String(await fsp.readFile(chosen)))) } catch { json = null }
+    }
+  }
+  try { await fsp.rm(tmpDir, { recursive: true, force: true }) } catch { /* a leftover temp dir is harmless */ }
+  return json
+}
+
+// Read data file of a mod. Returns JSON { pageUrl?, imageUrl?, title?, author?, description?, version?, files? }
 ipcMain.handle('mods:getData', async (_e, character: string, modName: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) return null
-  const cdir = characterDir(modsRoot, character)
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod) return null
   try {
-    // Folder-based mod: read data.txt or legacy data directly from folder if present
-    const folderPath = modDir(modsRoot, character, modName)
-    if (isDirectory(folderPath)) {
-      try {
-        const dataTxt = path.join(folderPath, 'data.txt')
-        const dataLegacy = path.join(folderPath, 'data')
-        const chosen = fs.existsSync(dataTxt) ? dataTxt : (fs.existsSync(dataLegacy) ? dataLegacy : null)
-        if (chosen) {
-          try {
-            const raw = await fsp.readFile(chosen, 'utf-8')
-            const j = JSON.parse(raw)
-            if (j && typeof j === 'object') return { pageUrl: j.pageUrl || undefined, imageUrl: j.imageUrl || undefined }
-          } catch {}
-        }
-      } catch {}
-    }
-    const files = await fsp.readdir(cdir)
-    const target = files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-      || files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.toLowerCase().includes(modName.toLowerCase()))
-    if (!target) return null
-  const archivePath = path.join(cdir, target)
-  const tmpDir = path.join(os.tmpdir(), `zzzmm_data_${Date.now()}_${Math.random().toString(36).slice(2)}`)
-    await fsp.mkdir(tmpDir, { recursive: true })
-    const sevenPath = getSevenBinary()
-    // Try extracting 'data.txt' first, then legacy 'data'
-    await new Promise<void>((resolve) => {
-      const child = spawn(sevenPath, ['x', archivePath, 'data.txt', `-o"${tmpDir}"`, '-y'])
-      child.on('error', () => resolve())
-      child.on('close', () => resolve())
-    })
-    await new Promise<void>((resolve) => {
-      const child = spawn(sevenPath, ['x', archivePath, 'data', `-o"${tmpDir}"`, '-y'])
-      child.on('error', () => resolve())
-      child.on('close', () => resolve())
-    })
-    const dataTxt = path.join(tmpDir, 'data.txt')
-    const dataLegacy = path.join(tmpDir, 'data')
-    let json: any = null
-    const chosen = fs.existsSync(dataTxt) ? dataTxt : (fs.existsSync(dataLegacy) ? dataLegacy : null)
-    if (chosen) {
-      try {
-        const raw = await fsp.readFile(chosen, 'utf-8')
-        json = JSON.parse(raw)
-      } catch {
-        try { json = JSON.parse(String(await fsp.readFile(chosen))) } catch { json = null }
+    const json = await readModDataFile(mod)
+    if (json) {
+      return {
+        pageUrl: optionalString(json.pageUrl),
+        imageUrl: optionalString(json.imageUrl),
+        title: optionalString(json.title),
+        author: optionalString(json.author),
+        description: optionalString(json.description),
+        version: optionalString(json.version),
+        files: Array.isArray(json.files) ? json.files : undefined,
       }
     }
-    try { await fsp.rm(tmpDir, { recursive: true, force: true }) } catch {}
-    if (json && typeof json === 'object') {
-      return { pageUrl: json.pageUrl || undefined, imageUrl: json.imageUrl || undefined }
-    }
     return null
   } catch {
     return null
   }
 })
 
-// Write (or overwrite) data.txt file inside mod archive (removes legacy 'data' if present)
-ipcMain.handle('mods:setData', async (_e, character: string, modName: string, payload: { pageUrl?: string; imageUrl?: string }) => {
-  const { modsRoot } = await readSettings()
-  if (!modsRoot) throw new Error('Mods root not set')
-  const folderPath = modDir(modsRoot, character, modName)
+// Write data.txt into a folder mod or a flat archive (removes legacy 'data' if present). Fields not in
+// `patch` are kept, so the install record and other keys survive URL edits; undefined values drop a key.
+async function writeModDataFile(mod: ResolvedMod, patch: Record<string, unknown>) {
+  let existing: Record<string, unknown> = {}
+  try { existing = asJsonObject(await readModDataFile(mod)) } catch { /* unreadable: written from scratch */ }
+  const data = { ...existing, ...patch }
   // Folder-based: write data.txt directly
-  if (isDirectory(folderPath)) {
+  if (mod.kind === 'folder') {
+    const folderPath = mod.path
     const dataTxt = path.join(folderPath, 'data.txt')
-    await fsp.writeFile(dataTxt, JSON.stringify({ pageUrl: payload.pageUrl || undefined, imageUrl: payload.imageUrl || undefined }, null, 2), 'utf-8')
+    await fsp.writeFile(dataTxt, JSON.stringify(data, null, 2), 'utf-8')
     try { await fsp.unlink(path.join(folderPath, 'data')) } catch {}
-    return true
+    return
   }
   // Archive-based fallback
-  const cdir = characterDir(modsRoot, character)
-  const files = await fsp.readdir(cdir)
-  const target = files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-    || files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.toLowerCase().includes(modName.toLowerCase()))
-  if (!target) throw new Error('Archive not found')
-  const archivePath = path.join(cdir, target)
+  const archivePath = mod.path
   const tmpDir = path.join(os.tmpdir(), `zzzmm_dataw_${Date.now()}_${Math.random().toString(36).slice(2)}`)
   await fsp.mkdir(tmpDir, { recursive: true })
   const dataFile = path.join(tmpDir, 'data.txt')
-  await fsp.writeFile(dataFile, JSON.stringify({ pageUrl: payload.pageUrl || undefined, imageUrl: payload.imageUrl || undefined }, null, 2), 'utf-8')
+  await fsp.writeFile(dataFile, JSON.stringify(data, null, 2), 'utf-8')
   const sevenPath = getSevenBinary()
   await new Promise<void>((resolve) => {
     const child = spawn(sevenPath, ['d', archivePath, 'data'])
@@ -409,49 +651,224 @@ ipcMain.handle('mods:setData', async (_e, character: string, modName: string, pa
     child.on('close', (code) => (code === 0 ? resolve() : reject(new Error('7zip add exit ' + code))) )
   })
   try { await fsp.rm(tmpDir, { recursive: true, force: true }) } catch {}
+}
+
+// Write (or overwrite) the URLs in data.txt of a mod
+ipcMain.handle('mods:setData', async (_e, character: string, modName: string, payload: { pageUrl?: string; imageUrl?: string }) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const mod = await requireMod(modsRoot, character, modName)
+  invalidateModIndex(mod)
+  await writeModDataFile(mod, { pageUrl: payload.pageUrl || undefined, imageUrl: payload.imageUrl || undefined })
   return true
 })
 
 // Get primary internal name (first top-level item excluding preview.* and data)
+async function readModPrimaryInternalName(mod: ResolvedMod): Promise<string | null> {
+  // Folder-based mod: choose first top-level entry excluding data/data.txt and preview.* (prefer directory)
+  if (mod.kind === 'folder') {
+    const ents = await fsp.readdir(mod.path, { withFileTypes: true })
+    const filtered = ents.filter((e) => {
+      const n = e.name.toLowerCase()
+      if (n === 'data' || n === 'data.txt') return false
+      if (/^preview\.(png|jpe?g|webp|gif)$/i.test(n)) return false
+      return true
+    })
+    if (filtered.length === 0) return null
+    const dirEnt = filtered.find(e => e.isDirectory())
+    return (dirEnt ? dirEnt.name : filtered[0].name)
+  }
+  return await getPrimaryInternalNameFromArchive(mod.path)
+}
+
 ipcMain.handle('mods:getPrimaryInternalName', async (_e, character: string, modName: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) return null
-  const cdir = characterDir(modsRoot, character)
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod) return null
   try {
-    // Folder-based mod: choose first top-level entry excluding data/data.txt and preview.* (prefer directory)
-    const folderPath = modDir(modsRoot, character, modName)
-    if (isDirectory(folderPath)) {
-      try {
-        const ents = await fsp.readdir(folderPath, { withFileTypes: true })
-        const filtered = ents.filter((e) => {
-          const n = e.name.toLowerCase()
-          if (n === 'data' || n === 'data.txt') return false
-          if (/^preview\.(png|jpe?g|webp|gif)$/i.test(n)) return false
-          return true
-        })
-        if (filtered.length === 0) return null
-        const dirEnt = filtered.find(e => e.isDirectory())
-        return (dirEnt ? dirEnt.name : filtered[0].name)
-      } catch {}
-    }
-    const files = await fsp.readdir(cdir)
-    const target = files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-      || files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.toLowerCase().includes(modName.toLowerCase()))
-    if (!target) return null
-    const archPath = path.join(cdir, target)
-    return await getPrimaryInternalNameFromArchive(archPath)
+    return await readModPrimaryInternalName(mod)
   } catch {
     return null
   }
 })
 
+// --------------------------- INI summary ---------------------------
+// 3DMigoto reads every active .ini below the mod; summarize them all (namespaces, hash overrides,
+// key bindings, variables). Flat archives get their .ini files extracted to a temp dir first.
+
+const INI_MAX_DEPTH = 8
+
+// Relative paths (forward slashes) of the .ini files 3DMigoto would load below dir
+async function listActiveIniFiles(dir: string, rel = '', depth = 0): Promise<string[]> {
+  if (depth > INI_MAX_DEPTH) return []
+  let ents: fs.Dirent[] = []
+  try { ents = await fsp.readdir(path.join(dir, rel), { withFileTypes: true }) } catch { return [] }
+  const out: string[] = []
+  for (const e of ents) {
+    const r = rel ? `${rel}/${e.name}` : e.name
+    if (e.isDirectory()) {
+      if (!/^DISABLED/i.test(e.name)) out.push(...await listActiveIniFiles(dir, r, depth + 1))
+    } else if (isActiveIniFile(r)) {
+      out.push(r)
+    }
+  }
+  return out.sort((a, b) => a.localeCompare(b))
+}
+
+async function summarizeIniDir(dir: string): Promise<IniSummary> {
+  const files = await listActiveIniFiles(dir)
+  const list: IniSummary[] = []
+  for (const rel of files) {
+    try {
+      const text = await fsp.readFile(path.join(dir, rel), 'utf-8')
+      list.push(summarizeIni(rel, parseIni(text)))
+    } catch { /* unreadable .ini: left out of the summary */ }
+  }
+  return mergeIniSummaries(list)
+}
+
+async function readModIniSummary(mod: ResolvedMod): Promise<IniSummary> {
+  return mod.kind === 'folder' ? summarizeIniDir(mod.path) : summarizeArchiveIni(mod.path)
+}
+
+async function summarizeArchiveIni(archivePath: string): Promise<IniSummary> {
+  const tmpDir = path.join(os.tmpdir(), `zzzmm_ini_${Date.now()}_${Math.random().toString(36).slice(2)}`)
+  await fsp.mkdir(tmpDir, { recursive: true })
+  try {
+    const sevenPath = getSevenBinary()
+    await new Promise<void>((resolve) => {
+      const child = spawn(sevenPath, ['x', archivePath, '*.ini', '-r', `-o"${tmpDir}"`, '-y'])
+      child.on('error', () => resolve())
+      child.on('close', () => resolve())
+    })
+    return await summarizeIniDir(tmpDir)
+  } finally {
+    try { await fsp.rm(tmpDir, { recursive: true, force: true }) } catch { /* a leftover temp dir is harmless */ }
+  }
+}
+
+// Served from the library index when the mod is unchanged since it was last summarized
+async function getModIniSummary(mod: ResolvedMod): Promise<IniSummary> {
+  const index = await loadLibraryIndex()
+  const entry = index.entries[libraryIndexKey(mod)]
+  if (entry?.ini) {
+    try {
+      const st = await fsp.stat(mod.path)
+      // Folder mods: an .ini edited inside a subfolder leaves the folder's own mtime alone
+      const content = mod.kind === 'folder' ? await folderContentSignature(mod.path) : undefined
+      if (entry.mtimeMs === st.mtimeMs && entry.size === st.size && entry.content === content) return entry.ini
+    } catch { /* gone or unreadable: summarized again below */ }
+  }
+  const ini = await readModIniSummary(mod)
+  if (entry) {
+    entry.ini = ini
+    libraryIndexDirty = true
+    await saveLibraryIndex()
+  }
+  return ini
+}
+
+ipcMain.handle('mods:getIniSummary', async (_e, character: string, modName: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) return null
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod) return null
+  return getModIniSummary(mod)
+})
+
+// Key bindings of every enabled mod of the character. `collidesWith` lists the other mods
+// bound to the same key, which the game would toggle together.
+ipcMain.handle('mods:getKeyBindings', async (_e, character: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) return []
+  const items = (await listModItems(modsRoot, character)).filter((item) => item.meta.enabled)
+  const tasks = items.map((item) => async () => {
+    const mod = toResolvedMod(modsRoot, character, item.archive || item.folder, item.archive ? 'flat' : 'folder')
+    let summary: IniSummary | null = null
+    try { summary = await getModIniSummary(mod) } catch { /* unreadable mod: no bindings listed */ }
+    return (summary?.keys || []).map((k) => ({ ...k, mod: item.folder }))
+  })
+  const bindings = (await runLimited(tasks, 4)).flat()
+  const byKey = new Map<string, Set<string>>()
+  for (const b of bindings) {
+    for (const k of [b.key, b.back]) {
+      if (!k) continue
+      const nk = normalizeKeyBinding(k)
+      if (!byKey.has(nk)) byKey.set(nk, new Set())
+      byKey.get(nk)!.add(b.mod)
+    }
+  }
+  return bindings.map((b) => {
+    const others = new Set<string>()
+    for (const k of [b.key, b.back]) {
+      if (!k) continue
+      for (const m of byKey.get(normalizeKeyBinding(k)) || []) if (m !== b.mod) others.add(m)
+    }
+    return { ...b, collidesWith: Array.from(others) }
+  })
+})
+
+const INI_BACKUP_SUFFIX = '.bak'
+
+// Rewrite the `key =` entry of a binding. The first edit keeps a copy of the original file as
+// <file>.ini.bak next to it (3DMigoto ignores it). Flat archives are updated with 7-Zip like mods:setData.
+ipcMain.handle('mods:rebindKey', async (_e, character: string, modName: string, file: string, line: number, newKey: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const value = String(newKey || '').trim()
+  if (!value || /[\r\n;]/.test(value)) throw new Error('Invalid key binding')
+  const rel = String(file || '').replace(/\\/g, '/')
+  if (!rel || path.isAbsolute(rel) || rel.split('/').includes('..') || !isActiveIniFile(rel)) throw new Error(`Invalid ini path: ${file}`)
+  const mod = await requireMod(modsRoot, character, modName)
+  invalidateModIndex(mod)
+  if (mod.kind === 'folder') {
+    const full = path.join(mod.path, rel)
+    const updated = replaceIniValue(await fsp.readFile(full, 'utf-8'), line, 'key', value)
+    const backup = full + INI_BACKUP_SUFFIX
+    if (!fs.existsSync(backup)) await fsp.copyFile(full, backup)
+    await fsp.writeFile(full, updated, 'utf-8')
+    return true
+  }
+  const archivePath = mod.path
+  const tmpDir = path.join(os.tmpdir(), `zzzmm_key_${Date.now()}_${Math.random().toString(36).slice(2)}`)
+  await fsp.mkdir(tmpDir, { recursive: true })
+  try {
+    const sevenPath = getSevenBinary()
+    await new Promise<void>((resolve) => {
+      const child = spawn(sevenPath, ['x', archivePath, rel, rel + INI_BACKUP_SUFFIX, `-o"${tmpDir}"`, '-y'])
+      child.on('error', () => resolve())
+      child.on('close', () => resolve())
+    })
+    const full = path.join(tmpDir, rel)
+    if (!fs.existsSync(full)) throw new Error(`${rel} not found in archive`)
+    const updated = replaceIniValue(await fsp.readFile(full, 'utf-8'), line, 'key', value)
+    const toAdd = [rel]
+    if (!fs.existsSync(full + INI_BACKUP_SUFFIX)) {
+      await fsp.copyFile(full, full + INI_BACKUP_SUFFIX)
+      toAdd.push(rel + INI_BACKUP_SUFFIX)
+    }
+    await fsp.writeFile(full, updated, 'utf-8')
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(sevenPath, ['a', archivePath, ...toAdd, '-y'], { cwd: tmpDir })
+      child.on('error', reject)
+      child.on('close', (code) => (code === 0 ? resolve() : reject(new Error('7zip add exit ' + code))) )
+    })
+    return true
+  } finally {
+    try { await fsp.rm(tmpDir, { recursive: true, force: true }) } catch { /* a leftover temp dir is harmless */ }
+  }
+})
+
 // Rename primary internal folder/file inside archive
 ipcMain.handle('mods:renamePrimaryInternal', async (_e, character: string, modName: string, newInternalName: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
   if (!newInternalName?.trim()) return { changed: false }
-  const folderPath = modDir(modsRoot, character, modName)
-  if (isDirectory(folderPath)) {
+  const mod = await requireMod(modsRoot, character, modName)
+  invalidateModIndex(mod)
+  if (mod.kind === 'folder') {
+    const folderPath = mod.path
     const ents = await fsp.readdir(folderPath, { withFileTypes: true })
     const filtered = ents.filter((e) => {
       const n = e.name.toLowerCase()
@@ -468,12 +885,7 @@ ipcMain.handle('mods:renamePrimaryInternal', async (_e, character: string, modNa
     await fsp.rename(from, to)
     return { changed: true }
   }
-  const cdir = characterDir(modsRoot, character)
-  const files = await fsp.readdir(cdir)
-  const target = files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-    || files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.toLowerCase().includes(modName.toLowerCase()))
-  if (!target) throw new Error('Archive not found')
-  const archPath = path.join(cdir, target)
+  const archPath = mod.path
   const current = await getPrimaryInternalNameFromArchive(archPath)
   if (!current || current === newInternalName) return { changed: false }
   const sevenPath = getSevenBinary()
@@ -485,6 +897,195 @@ ipcMain.handle('mods:renamePrimaryInternal', async (_e, character: string, modNa
   return { changed: true }
 })
 
+// --------------------------- Mod files ---------------------------
+// File browser of the edit modal: list, open, rename and delete the files of a mod. Folder mods are
+// edited on disk; flat archives are edited in place with 7-Zip like mods:renamePrimaryInternal.
+type ModFileEntry = { path: string; folder: boolean; size: number }
+
+const openedFilesDir = () => path.join(userDataDir(), 'opened')
+
+// Files opened from inside an archive are extracted copies; they are dropped on the next start
+app.whenReady().then(() => {
+  if (gotSingleInstanceLock) fsp.rm(openedFilesDir(), { recursive: true, force: true }).catch(() => {})
+})
+
+// Relative path inside the mod as given by mods:listFiles; absolute and `..` paths are refused
+function checkModFilePath(rel: string) {
+  const p = String(rel || '')
+  if (!p.trim() || isUnsafeEntryPath(p)) throw new Error(`Invalid file path: ${rel}`)
+  return p
+}
+
+// 7-Zip reads * and ? as wildcards and a leading @ as a list file. Only exact entries of the listing
+// are passed to it, and always after -spd (no wildcards) and -- (no more switches).
+function requireArchiveEntry(entries: Array<{ path: string }>, rel: string) {
+  if (/[*?]/.test(rel) || rel.startsWith('@')) throw new Error(`Unsupported file name in archive: ${rel}`)
+  if (!entries.some((e) => e.path === rel)) throw new Error(`${rel} not found in archive`)
+}
+
+async function listFolderFiles(root: string): Promise<ModFileEntry[]> {
+  const out: ModFileEntry[] = []
+  async function walk(dir: string) {
+    let ents: fs.Dirent[] = []
+    try { ents = await fsp.readdir(dir, { withFileTypes: true }) } catch { return }
+    for (const e of ents) {
+      if (out.length >= INSPECT_MAX_ENTRIES) return
+      const full = path.join(dir, e.name)
+      const rel = path.relative(root, full).split(path.sep).join('/')
+      if (e.isDirectory()) {
+        out.push({ path: rel, folder: true, size: 0 })
+        await walk(full)
+      } else {
+        let size = 0
+        try { size = (await fsp.stat(full)).size } catch { /* shown as 0 bytes */ }
+        out.push({ path: rel, folder: false, size })
+      }
+    }
+  }
+  await walk(root)
+  return out
+}
+
+ipcMain.handle('mods:listFiles', async (_e, character: string, modName: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const mod = await requireMod(modsRoot, character, modName)
+  const entries: ModFileEntry[] = mod.kind === 'folder'
+    ? await listFolderFiles(mod.path)
+    : (await listArchiveEntries(mod.path)).map((e) => ({ path: e.path, folder: e.folder, size: e.size }))
+  return {
+    kind: mod.kind,
+    fileName: path.basename(mod.path),
+    entries: entries.slice(0, INSPECT_MAX_ENTRIES),
+    truncated: entries.length > INSPECT_MAX_ENTRIES,
+  }
+})
+
+// Open a file with its default app. Files inside an archive are extracted to a temporary copy first,
+// so changes made there are not saved back into the mod.
+ipcMain.handle('mods:openFile', async (_e, character: string, modName: string, file: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const rel = checkModFilePath(file)
+  const mod = await requireMod(modsRoot, character, modName)
+  let full = path.join(mod.path, rel)
+  if (mod.kind === 'flat') {
+    requireArchiveEntry(await listArchiveEntries(mod.path), rel)
+    const outDir = path.join(openedFilesDir(), `${Date.now()}_${Math.random().toString(36).slice(2)}`)
+    full = path.join(outDir, rel)
+    if (!isPathInside(full, outDir)) throw new Error(`Invalid file path: ${rel}`)
+    await fsp.mkdir(outDir, { recursive: true })
+    const res = await runSeven(['x', '-spd', mod.path, `-o"${outDir}"`, '-y', '--', rel])
+    if (res.code !== 0 || !fs.existsSync(full)) throw new Error(`Could not extract ${rel} (7zip exit ${res.code})`)
+  } else if (!isPathInside(full, mod.path) || !fs.existsSync(full)) {
+    throw new Error(`${rel} not found in mod`)
+  }
+  const error = await shell.openPath(full)
+  if (error) throw new Error(error)
+  return true
+})
+
+ipcMain.handle('mods:renameFile', async (_e, character: string, modName: string, file: string, newName: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const rel = checkModFilePath(file)
+  const name = String(newName || '').trim()
+  if (!name || name === '.' || name === '..' || /[\\/:*?"<>|]/.test(name)) throw new Error(`Invalid file name: ${newName}`)
+  const cut = Math.max(rel.lastIndexOf('/'), rel.lastIndexOf('\\'))
+  const target = rel.slice(0, cut + 1) + name
+  if (target === rel) return { changed: false, path: rel }
+  const mod = await requireMod(modsRoot, character, modName)
+  invalidateModIndex(mod)
+  if (mod.kind === 'folder') {
+    const from = path.join(mod.path, rel)
+    const to = path.join(mod.path, target)
+    if (!isPathInside(from, mod.path) || !fs.existsSync(from)) throw new Error(`${rel} not found in mod`)
+    // Case-only renames are allowed on case-insensitive file systems
+    if (fs.existsSync(to) && to.toLowerCase() !== from.toLowerCase()) throw new Error('Target already exists')
+    await fsp.rename(from, to)
+    return { changed: true, path: target }
+  }
+  const entries = await listArchiveEntries(mod.path)
+  requireArchiveEntry(entries, rel)
+  if (target.startsWith('@')) throw new Error(`Invalid file name: ${newName}`)
+  if (entries.some((e) => e.path.toLowerCase() === target.toLowerCase()) && target.toLowerCase() !== rel.toLowerCase()) throw new Error('Target already exists')
+  const res = await runSeven(['rn', '-spd', mod.path, '--', rel, target])
+  if (res.code !== 0) throw new Error('7zip rn exit ' + res.code)
+  return { changed: true, path: target }
+})
+
+// Folders are deleted with everything inside them
+ipcMain.handle('mods:deleteFile', async (_e, character: string, modName: string, file: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const rel = checkModFilePath(file)
+  const mod = await requireMod(modsRoot, character, modName)
+  invalidateModIndex(mod)
+  if (mod.kind === 'folder') {
+    const full = path.join(mod.path, rel)
+    if (!isPathInside(full, mod.path) || path.resolve(full) === path.resolve(mod.path)) throw new Error(`Invalid file path: ${rel}`)
+    await fsp.rm(full, { recursive: true, force: true })
+    return true
+  }
+  requireArchiveEntry(await listArchiveEntries(mod.path), rel)
+  const res = await runSeven(['d', '-spd', mod.path, '--', rel])
+  if (res.code !== 0) throw new Error('7zip d exit ' + res.code)
+  return true
+})
+
+// --------------------------- Mod variants ---------------------------
+// Multi-variant packs keep every variant folder installed; switching renames them so only the active
+// one lacks the DISABLED_ prefix. The list is stored in mod.json at install; mods installed before
+// are detected from their folders the first time they are asked for.
+
+function variantRenameSteps(dir: string, topNames: string[], variants: string[], active: string): RenameStep[] {
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+  const steps: RenameStep[] = []
+  for (const name of topNames) {
+    const bare = variantName(name)
+    if (!variants.some((v) => same(v, bare))) continue
+    const wanted = same(bare, active) ? bare : `DISABLED_${bare}`
+    if (name !== wanted) steps.push(...renameSteps(path.join(dir, name), path.join(dir, wanted)))
+  }
+  return steps
+}
+
+async function readModVariants(mod: ResolvedMod): Promise<{ variants: string[]; active: string | null; folders: string[] }> {
+  if (mod.kind !== 'folder') return { variants: [], active: null, folders: [] }
+  const folders = (await fsp.readdir(mod.path, { withFileTypes: true })).filter((e) => e.isDirectory()).map((e) => e.name)
+  const meta = await readModMeta(mod.path)
+  let variants = meta.variants
+  if (!variants) {
+    variants = findVariants(await listFolderFiles(mod.path))
+    if (variants.length) { try { await writeModMeta(mod.path, { name: meta.name, variants }) } catch { /* variants are found again on the next listing */ } }
+  }
+  // Windows folder names are case-insensitive: "outfit a" on disk is the "Outfit A" variant
+  const enabled = variants.filter((v) => folders.some((f) => f.toLowerCase() === v.toLowerCase()))
+  return { variants, active: enabled.length === 1 ? enabled[0] : null, folders }
+}
+
+ipcMain.handle('mods:getVariants', async (_e, character: string, modName: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const { variants, active } = await readModVariants(await requireMod(modsRoot, character, modName))
+  return { variants, active }
+})
+
+ipcMain.handle('mods:setVariant', async (_e, character: string, modName: string, variant: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const mod = await requireMod(modsRoot, character, modName)
+  const { variants, folders } = await readModVariants(mod)
+  const target = variants.find((v) => v.toLowerCase() === String(variant || '').toLowerCase())
+  if (!target) throw new Error(`Unknown variant: ${variant}`)
+  invalidateModIndex(mod)
+  // All or nothing, like enabling/disabling whole mods
+  await runRenameTransaction(renameJournalPath(), 'mods:setVariant', variantRenameSteps(mod.path, folders, variants, target))
+  try { await writeModMeta(mod.path, { name: (await readModMeta(mod.path)).name, activeVariant: target }) } catch { /* the active variant is also seen from the folder names */ }
+  try { win?.webContents.send('fs-changed', { root: characterDir(modsRoot, character) }) } catch { /* window already closed */ }
+  return { variants, active: target }
+})
+
 // Get the top-level internal folder name inside the archive (e.g., "carpetaX").
 // We DO NOT modify the archive; we only list its contents.
 
@@ -619,6 +1220,10 @@ type ModMeta = {
   updateUrl?: string
   image?: string // relative file name inside the mod folder
   enabled?: boolean
+  favorite?: boolean
+  tags?: string[]
+  variants?: string[] // alternative top-level folders, only one enabled at a time
+  activeVariant?: string
   updatedAt?: string
   createdAt?: string
 }
@@ -627,10 +1232,19 @@ function characterDir(root: string, character: string) {
   return path.join(root, character)
 }
 
-function modDir(root: string, character: string, modName: string) {
-  return path.join(characterDir(root, character), modName)
-}
-
+// Character folders the game loads (DISABLED_ ones are skipped by 3DMigoto)
+async function listCharacterDirs(root: string): Promise<string[]> {
+  try {
+    return (await fsp.readdir(root)).filter((n) => !DISABLED_RE.test(n) && isDirectory(path.join(root, n)))
+  } catch {
+    return []
+  }
+}
+
+function modDir(root: string, character: string, modName: string) {
+  return path.join(characterDir(root, character), modName)
+}
+
 async function readModMeta(dir: string): Promise<ModMeta> {
   const metaPath = path.join(dir, 'mod.json')
   try {
@@ -670,6 +1284,197 @@ function pickFirstImageFile(dir: string, preferredBaseName?: string): string | n
   }
 }
 
+// --------------------------- Mod resolution ---------------------------
+const ARCHIVE_RE = /\.(zip|7z|rar)$/i
+const DISABLED_RE = /^DISABLED_/i
+
+// A mod inside a character directory: either a folder (legacy/extracted) or a flat archive.
+// `name` is the display name (no DISABLED_ prefix, no archive extension) and `entry` the real name on disk.
+type ResolvedMod = {
+  kind: 'folder' | 'flat'
+  character: string
+  name: string
+  entry: string
+  path: string
+  enabled: boolean
+  enabledPath: string
+  disabledPath: string
+}
+
+function toResolvedMod(modsRoot: string, character: string, entry: string, kind: ResolvedMod['kind']): ResolvedMod {
+  const cdir = characterDir(modsRoot, character)
+  const bare = entry.replace(DISABLED_RE, '')
+  return {
+    kind,
+    character,
+    name: kind === 'flat' ? bare.replace(ARCHIVE_RE, '') : bare,
+    entry,
+    path: path.join(cdir, entry),
+    enabled: !DISABLED_RE.test(entry),
+    enabledPath: path.join(cdir, bare),
+    disabledPath: path.join(cdir, `DISABLED_${bare}`),
+  }
+}
+
+// Resolve the name the UI knows a mod by (folder entry, or archive base name for flat mods); see
+// matchModEntry for the rules. Returns null when nothing matches and throws when several entries match.
+async function resolveMod(modsRoot: string, character: string, modName: string): Promise<ResolvedMod | null> {
+  if (!character?.trim() || !(modName || '').trim()) return null
+  let entries: fs.Dirent[]
+  try {
+    entries = await fsp.readdir(characterDir(modsRoot, character), { withFileTypes: true })
+  } catch {
+    return null
+  }
+  const match = matchModEntry(entries.filter((e) => e.isDirectory() || e.isFile()).map((e) => ({ name: e.name, folder: e.isDirectory() })), modName, character)
+  return match ? toResolvedMod(modsRoot, character, match.entry, match.kind) : null
+}
+
+async function requireMod(modsRoot: string, character: string, modName: string): Promise<ResolvedMod> {
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod) throw new Error(`Mod not found: ${modName}`)
+  return mod
+}
+
+// --------------------------- Library index ---------------------------
+// Persisted in userData so the grid does not spawn 7-Zip per mod on every load.
+// Entries are keyed by the mod path without DISABLED_ (toggling keeps the entry) and
+// validated against mtime + size (plus the .ini files for folder mods); the fs watcher drops
+// entries of touched mods.
+type LibraryIndexEntry = {
+  mtimeMs: number
+  size: number
+  content?: string // folder mods: see folderContentSignature
+  internalName: string | null
+  pageUrl?: string
+  imageUrl?: string
+  preview: string | null // absolute path: inside the mod folder, or extracted under userData/previews for flat archives
+  enabled: boolean
+  ini?: IniSummary
+  // Flat archives keep tags/favorite in data.txt (folder mods in mod.json, read on every listing)
+  tags?: string[]
+  favorite?: boolean
+}
+
+type LibraryIndex = {
+  version: number
+  entries: Record<string, LibraryIndexEntry>
+}
+
+const LIBRARY_INDEX_VERSION = 4
+const libraryIndexPath = () => path.join(userDataDir(), 'library-index.json')
+const previewCacheDir = () => path.join(userDataDir(), 'previews')
+let libraryIndex: LibraryIndex | null = null
+let libraryIndexDirty = false
+
+function libraryIndexKey(mod: ResolvedMod) {
+  return mod.enabledPath
+}
+
+async function loadLibraryIndex(): Promise<LibraryIndex> {
+  if (libraryIndex) return libraryIndex
+  try {
+    const j = JSON.parse(await fsp.readFile(libraryIndexPath(), 'utf-8'))
+    if (j && j.version === LIBRARY_INDEX_VERSION && j.entries && typeof j.entries === 'object') libraryIndex = j
+  } catch { /* missing or stale index: rebuilt */ }
+  if (!libraryIndex) libraryIndex = { version: LIBRARY_INDEX_VERSION, entries: {} }
+  return libraryIndex
+}
+
+async function saveLibraryIndex() {
+  if (!libraryIndex || !libraryIndexDirty) return
+  libraryIndexDirty = false
+  try {
+    await fsp.mkdir(userDataDir(), { recursive: true })
+    await fsp.writeFile(libraryIndexPath(), JSON.stringify(libraryIndex), 'utf-8')
+  } catch {
+    libraryIndexDirty = true
+  }
+}
+
+function dropLibraryIndexEntry(index: LibraryIndex, key: string) {
+  const entry = index.entries[key]
+  if (!entry) return
+  delete index.entries[key]
+  libraryIndexDirty = true
+  // Cached previews of flat archives live under userData; folder previews belong to the mod
+  if (entry.preview && entry.preview.startsWith(previewCacheDir())) {
+    fsp.rm(path.dirname(entry.preview), { recursive: true, force: true }).catch(() => {})
+  }
+}
+
+function invalidateModIndex(mod: ResolvedMod) {
+  if (libraryIndex) dropLibraryIndexEntry(libraryIndex, libraryIndexKey(mod))
+}
+
+// Called by the fs watcher with the absolute path that changed under modsRoot
+function invalidateLibraryIndex(root: string, changed: string) {
+  if (!libraryIndex) return
+  const parts = path.relative(root, changed).split(/[\\/]/).filter(Boolean)
+  if (parts.length < 2) return
+  const key = path.join(root, parts[0], parts[1].replace(DISABLED_RE, ''))
+  dropLibraryIndexEntry(libraryIndex, key)
+}
+
+// Editing a file inside a subfolder does not touch the mod folder's own mtime, so folder mods are
+// also checked by the count and newest mtime of the .ini files 3DMigoto loads (and data.txt)
+async function folderContentSignature(dir: string): Promise<string> {
+  let count = 0
+  let newest = 0
+  for (const rel of [...await listActiveIniFiles(dir), 'data.txt', 'data']) {
+    try {
+      const st = await fsp.stat(path.join(dir, rel))
+      count++
+      newest = Math.max(newest, st.mtimeMs)
+    } catch { /* data.txt is optional */ }
+  }
+  return `${count}:${newest}`
+}
+
+async function buildLibraryIndexEntry(mod: ResolvedMod, item: ModListItem, st: fs.Stats, content?: string): Promise<LibraryIndexEntry> {
+  let internalName: string | null = null
+  try { internalName = await readModPrimaryInternalName(mod) } catch { /* listed without an internal name */ }
+  let data: JsonObject | null = null
+  try { data = await readModDataFile(mod) } catch { /* no page URL or tags then */ }
+  let preview: string | null = null
+  if (mod.kind === 'folder') {
+    if (item.meta.image) preview = path.join(mod.path, item.meta.image)
+  } else {
+    const hash = crypto.createHash('sha1').update(libraryIndexKey(mod)).digest('hex')
+    const outDir = path.join(previewCacheDir(), hash)
+    try { await fsp.rm(outDir, { recursive: true, force: true }) } catch { /* the extraction below overwrites it */ }
+    try { preview = await extractArchivePreview(mod.path, outDir) } catch { /* no preview */ }
+  }
+  let ini: IniSummary | undefined
+  try { ini = await readModIniSummary(mod) } catch { /* listed without an INI summary */ }
+  return {
+    mtimeMs: st.mtimeMs,
+    size: st.size,
+    content,
+    internalName,
+    pageUrl: optionalString(data?.pageUrl),
+    imageUrl: optionalString(data?.imageUrl),
+    preview,
+    enabled: mod.enabled,
+    ini,
+    ...(mod.kind === 'flat' ? { tags: normalizeTags(data?.tags), favorite: data?.favorite === true } : {}),
+  }
+}
+
+// Run async tasks with limited concurrency, preserving result order
+async function runLimited<T>(fns: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(fns.length)
+  let idx = 0
+  const workers = Array(Math.min(limit, fns.length)).fill(0).map(async () => {
+    while (idx < fns.length) {
+      const cur = idx++
+      results[cur] = await fns[cur]()
+    }
+  })
+  await Promise.all(workers)
+  return results
+}
+
 // --------------------------- IPC ---------------------------
 
 // Helper: get archive file name for a mod under a character directory
@@ -678,39 +1483,8 @@ function pickFirstImageFile(dir: string, preferredBaseName?: string): string | n
 // Helper: get primary internal name using machine-readable 7z output (-slt).
 // Picks the first top-level entry excluding preview.* and data/data.txt. Prefers directories over files.
 async function getPrimaryInternalNameFromArchive(archivePath: string): Promise<string | null> {
-  const sevenPath = getSevenBinary()
   try {
-    const output: string = await new Promise((resolve, reject) => {
-      const child = spawn(sevenPath, ['l', '-slt', archivePath])
-      let out = ''
-      child.stdout.on('data', (d) => out += d.toString())
-      child.on('error', reject)
-      child.on('close', () => resolve(out))
-    })
-    const lines = output.split(/\r?\n/)
-    type Entry = { path?: string; folderFlag?: boolean }
-    const entries: Entry[] = []
-    let cur: Entry | null = null
-    for (const raw of lines) {
-      const line = raw.trim()
-      if (!line) { if (cur && (cur.path)) entries.push(cur); cur = null; continue }
-      const eq = line.indexOf('=')
-      if (eq > 0) {
-        const key = line.slice(0, eq).trim()
-        const value = line.slice(eq + 1).trim()
-        if (key === 'Path') {
-          if (!cur) cur = {}
-          cur.path = value
-        } else if (key === 'Folder') {
-          if (!cur) cur = {}
-          cur.folderFlag = (value === '+' || value.toLowerCase() === 'yes' || value === '1')
-        } else if (key === 'Attributes') {
-          if (!cur) cur = {}
-          if (/\bD/i.test(value)) cur.folderFlag = true
-        }
-      }
-    }
-    if (cur && cur.path) entries.push(cur)
+    const entries = (await listArchiveEntries(archivePath)).map((e) => ({ path: e.path, folderFlag: e.folder }))
 
     // Build top-level list preserving order
     const seen: string[] = []
@@ -776,6 +1550,44 @@ ipcMain.handle('settings:setImagesRoot', async (_e, root: string) => {
   return s
 })
 
+ipcMain.handle('settings:setTrashPolicy', async (_e, policy: { maxAgeDays?: number; maxSizeMB?: number }) => {
+  const s = await readSettings()
+  if (policy.maxAgeDays !== undefined) s.trashMaxAgeDays = Math.max(0, Math.floor(Number(policy.maxAgeDays) || 0))
+  if (policy.maxSizeMB !== undefined) s.trashMaxSizeMB = Math.max(0, Math.floor(Number(policy.maxSizeMB) || 0))
+  await writeSettings(s)
+  await applyTrashRetention()
+  return s
+})
+
+function isSingleActive(s: Settings, character: string) {
+  const key = character.toLowerCase()
+  return (s.singleActiveCharacters || []).some((c) => c.toLowerCase() === key)
+}
+
+// Keep the per-character policy attached to the character when its folder is renamed
+function renameSingleActive(s: Settings, from: string, to: string) {
+  if (!s.singleActiveCharacters) return false
+  const key = from.toLowerCase()
+  let changed = false
+  s.singleActiveCharacters = s.singleActiveCharacters.map((c) => {
+    if (c.toLowerCase() !== key) return c
+    changed = true
+    return to
+  })
+  return changed
+}
+
+ipcMain.handle('settings:setSingleActive', async (_e, character: string, enabled: boolean) => {
+  if (!character?.trim()) throw new Error('Character is required')
+  const s = await readSettings()
+  const key = character.toLowerCase()
+  const list = (s.singleActiveCharacters || []).filter((c) => c.toLowerCase() !== key)
+  if (enabled) list.push(character)
+  s.singleActiveCharacters = list
+  await writeSettings(s)
+  return s
+})
+
 ipcMain.handle('dialog:selectFolder', async () => {
   const res = await dialog.showOpenDialog({ properties: ['openDirectory', 'createDirectory'] })
   if (res.canceled || res.filePaths.length === 0) return null
@@ -790,9 +1602,21 @@ ipcMain.handle('dialog:selectArchive', async () => {
   return res.filePaths[0]
 })
 
+ipcMain.handle('dialog:selectArchives', async () => {
+  const res = await dialog.showOpenDialog({ properties: ['openFile', 'multiSelections'], filters: [
+    { name: 'Archives', extensions: ['zip', '7z', 'rar'] },
+  ] })
+  if (res.canceled) return []
+  return res.filePaths
+})
+
 ipcMain.handle('characters:list', async () => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) return []
+  return listCharacterNames(modsRoot)
+})
+
+async function listCharacterNames(modsRoot: string): Promise<string[]> {
   try {
     const entries = await fsp.readdir(modsRoot)
     const dirs = entries.filter((n) => isDirectory(path.join(modsRoot, n)))
@@ -810,7 +1634,7 @@ ipcMain.handle('characters:list', async () => {
   } catch {
     return []
   }
-})
+}
 
 ipcMain.handle('characters:listWithImages', async () => {
   const { modsRoot, imagesRoot } = await readSettings()
@@ -869,24 +1693,13 @@ ipcMain.handle('characters:rename', async (_e, oldName: string, newName: string)
   }
   if (!isDirectory(from)) throw new Error('Source character does not exist')
   if (from === to) return { changed: false }
-  try {
-    // Windows case-only rename workaround
-    const caseOnly = oldName.toLowerCase() === newName.toLowerCase()
-    if (caseOnly) {
-      const temp = path.join(modsRoot, `${oldName}__tmp__${Date.now()}`)
-      await fsp.rename(from, temp)
-      await fsp.rename(temp, to)
-    } else {
-      // if target exists, error
-      try { await fsp.access(to); throw new Error('Target already exists') } catch {}
-      await fsp.rename(from, to)
-    }
-    // Notify renderer to refresh
-    win?.webContents.send('fs-changed', { root: modsRoot })
-    return { changed: true }
-  } catch (e) {
-    throw e
-  }
+  // Case-only renames go through a temp name (Windows); the journal rolls back a half-done rename
+  await runRenameTransaction(renameJournalPath(), 'characters:rename', renameSteps(from, to))
+  const settings = await readSettings()
+  if (renameSingleActive(settings, oldName, newName)) await writeSettings(settings)
+  // Notify renderer to refresh
+  win?.webContents.send('fs-changed', { root: modsRoot })
+  return { changed: true }
 })
 
 ipcMain.handle('characters:normalizeNames', async () => {
@@ -901,34 +1714,30 @@ ipcMain.handle('characters:normalizeNames', async () => {
     return trimmed.charAt(0).toUpperCase() + trimmed.slice(1).toLowerCase()
   }
 
+  // Plan every rename first; targets already on disk (or claimed by an earlier entry) are skipped
+  const steps: RenameStep[] = []
+  const claimed = new Set<string>()
   for (const name of entries) {
     const full = path.join(modsRoot, name)
     if (!isDirectory(full)) continue
     const targetName = normalize(name)
     if (targetName === name) continue
     const target = path.join(modsRoot, targetName)
-
-    try {
-      // Handle case-insensitive rename on Windows by renaming to a temp name first if needed
-      const sameCaseOnly = name.toLowerCase() === targetName.toLowerCase()
-      if (sameCaseOnly) {
-        const temp = path.join(modsRoot, `${name}__tmp__${Date.now()}`)
-        await fsp.rename(full, temp)
-        await fsp.rename(temp, target)
-      } else {
-        // If target exists, skip
-        try {
-          await fsp.access(target)
-          result.skipped.push(name)
-          continue
-        } catch {}
-        await fsp.rename(full, target)
-      }
-      result.changed.push({ from: name, to: targetName })
-    } catch {
+    const sameCaseOnly = name.toLowerCase() === targetName.toLowerCase()
+    if (claimed.has(targetName.toLowerCase()) || (!sameCaseOnly && fs.existsSync(target))) {
       result.skipped.push(name)
+      continue
     }
+    claimed.add(targetName.toLowerCase())
+    steps.push(...renameSteps(full, target))
+    result.changed.push({ from: name, to: targetName })
   }
+  // All or nothing: a failure rolls back the names already changed
+  await runRenameTransaction(renameJournalPath(), 'characters:normalizeNames', steps)
+  const settings = await readSettings()
+  let policyChanged = false
+  for (const c of result.changed) policyChanged = renameSingleActive(settings, c.from, c.to) || policyChanged
+  if (policyChanged) await writeSettings(settings)
 
   // Notify renderer to refresh
   win?.webContents.send('fs-changed', { root: modsRoot })
@@ -939,26 +1748,28 @@ ipcMain.handle('characters:delete', async (_e, name: string) => {
   const { modsRoot, imagesRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
   if (!name?.trim()) throw new Error('Character name required')
-  const cmods = characterDir(modsRoot, name)
-  try {
-    await fsp.rm(cmods, { recursive: true, force: true })
-  } catch {}
-  if (imagesRoot) {
-    const cimgs = path.join(imagesRoot, name)
-    try { await fsp.rm(cimgs, { recursive: true, force: true }) } catch {}
-  }
+  // Move the character folder and its DataBase folder to the recycle bin (restorable from Papelera)
+  const paths = [characterDir(modsRoot, name)]
+  if (imagesRoot) paths.push(path.join(imagesRoot, name))
+  await moveToTrash({ kind: 'character', character: name, name }, paths)
   // Notify renderer to refresh
   try { win?.webContents.send('fs-changed', { root: modsRoot }) } catch {}
   return true
 })
 
-ipcMain.handle('mods:list', async (_e, character: string) => {
-  const { modsRoot } = await readSettings()
-  if (!modsRoot) return []
+type ModListItem = {
+  folder: string
+  dir: string
+  meta: ModMeta
+  archive: string | null
+  flat?: boolean
+}
+
+async function listModItems(modsRoot: string, character: string): Promise<ModListItem[]> {
   const cdir = characterDir(modsRoot, character)
   try {
     const entries = await fsp.readdir(cdir)
-    const mods: any[] = []
+    const mods: ModListItem[] = []
     // Track names to avoid duplicates when both a folder and a flat archive share the same base name
     const seen = new Set<string>()
     // 1. Existing legacy mod folders
@@ -995,180 +1806,371 @@ ipcMain.handle('mods:list', async (_e, character: string) => {
   } catch {
     return []
   }
+}
+
+ipcMain.handle('mods:list', async (_e, character: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) return []
+  return listModItems(modsRoot, character)
 })
 
-// Activate one mod exclusively: ensure its archive(s) are not prefixed with DISABLED_, and prefix all others
-ipcMain.handle('mods:activateExclusive', async (_e, character: string, targetMod: string) => {
+// List mods with everything the grid needs (internal name, URLs, preview location) in one call,
+// served from the library index and only recomputed for mods whose mtime/size (or .ini files) changed.
+ipcMain.handle('mods:listDetailed', async (_e, character: string) => {
   const { modsRoot } = await readSettings()
-  if (!modsRoot) throw new Error('Mods root not set')
-  if (!character?.trim() || !targetMod?.trim()) throw new Error('Character and target mod are required')
+  if (!modsRoot) return []
+  return listDetailedMods(modsRoot, character)
+})
+
+async function listDetailedMods(modsRoot: string, character: string) {
+  const items = await listModItems(modsRoot, character)
+  const index = await loadLibraryIndex()
   const cdir = characterDir(modsRoot, character)
-  const entries = await fsp.readdir(cdir)
-  for (const m of entries) {
-    const mdir = path.join(cdir, m)
-    if (!isDirectory(mdir)) continue
+  const live = new Set<string>()
+  const tasks = items.map((item) => async () => {
+    const entry = item.archive || item.folder
+    const mod = toResolvedMod(modsRoot, character, entry, item.archive ? 'flat' : 'folder')
+    const key = libraryIndexKey(mod)
+    live.add(key)
+    let cached = index.entries[key]
     try {
-      const files = await fsp.readdir(mdir)
-      const archives = files.filter((f) => /\.(zip|7z|rar)$/i.test(f))
-      for (const file of archives) {
-        const from = path.join(mdir, file)
-        const isDisabled = /^DISABLED_/i.test(file)
-        if (m === targetMod) {
-          // ensure active: remove DISABLED_ if present
-          if (isDisabled) {
-            const toName = file.replace(/^DISABLED_/i, '')
-            const to = path.join(mdir, toName)
-            try { await fsp.rm(to, { force: true }) } catch {}
-            await fsp.rename(from, to)
-          }
-        } else {
-          // ensure disabled: add DISABLED_ if missing
-          if (!isDisabled) {
-            const to = path.join(mdir, `DISABLED_${file}`)
-            try { await fsp.rm(to, { force: true }) } catch {}
-            await fsp.rename(from, to)
-          }
-        }
+      const st = await fsp.stat(mod.path)
+      const content = mod.kind === 'folder' ? await folderContentSignature(mod.path) : undefined
+      if (!cached || cached.mtimeMs !== st.mtimeMs || cached.size !== st.size || cached.content !== content) {
+        cached = await buildLibraryIndexEntry(mod, item, st, content)
+        index.entries[key] = cached
+        libraryIndexDirty = true
+      } else if (cached.enabled !== mod.enabled) {
+        cached.enabled = mod.enabled
+        libraryIndexDirty = true
       }
-      // update metadata enabled flag for clarity
-      const enabled = (m === targetMod)
-      await writeModMeta(mdir, { name: m, enabled })
-    } catch {
-      // ignore per-mod errors
+    } catch { /* listed without the cached details */ }
+    return {
+      ...item,
+      meta: item.flat ? { ...item.meta, tags: cached?.tags, favorite: cached?.favorite } : item.meta,
+      internalName: cached?.internalName ?? null,
+      pageUrl: cached?.pageUrl,
+      imageUrl: cached?.imageUrl,
+      previewPath: cached?.preview ?? null,
+      ini: cached?.ini
+        ? { files: cached.ini.files.length, hashes: cached.ini.hashes.length, keys: cached.ini.keys.map((k) => k.key), namespaces: cached.ini.namespaces }
+        : null,
+    }
+  })
+  const result = await runLimited(tasks, 4)
+  // Drop entries of mods that no longer exist under this character
+  for (const key of Object.keys(index.entries)) {
+    if (path.dirname(key) === cdir && !live.has(key)) dropLibraryIndexEntry(index, key)
+  }
+  await saveLibraryIndex()
+  return result
+}
+
+// Every mod of every character for the global search bar; filtering and sorting happen in the renderer.
+// Flat archives have no mod.json, so their dates come from the file itself.
+ipcMain.handle('library:listAll', async () => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) return []
+  const out: Array<{
+    character: string
+    folder: string
+    name: string
+    internalName: string | null
+    pageUrl?: string
+    previewPath: string | null
+    enabled: boolean
+    flat: boolean
+    tags: string[]
+    favorite: boolean
+    createdAt?: string
+    updatedAt?: string
+  }> = []
+  for (const character of await listCharacterNames(modsRoot)) {
+    for (const m of await listDetailedMods(modsRoot, character)) {
+      let st: fs.Stats | null = null
+      try { st = await fsp.stat(path.join(characterDir(modsRoot, character), m.archive || m.folder)) } catch { /* no dates for this mod */ }
+      out.push({
+        character,
+        folder: m.folder,
+        name: m.meta.name || m.folder,
+        internalName: m.internalName,
+        pageUrl: m.pageUrl || m.meta.pageUrl,
+        previewPath: m.previewPath,
+        enabled: m.meta.enabled !== false,
+        flat: !!m.flat,
+        tags: normalizeTags(m.meta.tags),
+        favorite: m.meta.favorite === true,
+        createdAt: m.meta.createdAt || st?.birthtime.toISOString(),
+        updatedAt: m.meta.updatedAt || st?.mtime.toISOString(),
+      })
     }
   }
-  // Notify renderer
-  try { win?.webContents.send('fs-changed', { root: cdir }) } catch {}
-  return true
+  return out
 })
 
-// Enable a single mod: remove DISABLED_ prefix from its archive(s) only
-ipcMain.handle('mods:enable', async (_e, character: string, modName: string) => {
+// --------------------------- Tags and favorites ---------------------------
+// Stored with the rest of the mod metadata: mod.json for folder mods, data.txt inside the archive
+// for flat mods (7-Zip rewrite, like mods:setData).
+
+async function writeModTags(mod: ResolvedMod, patch: { tags?: string[]; favorite?: boolean }) {
+  invalidateModIndex(mod)
+  if (mod.kind === 'folder') {
+    const meta = await readModMeta(mod.path)
+    await writeModMeta(mod.path, { name: meta.name, ...patch })
+    return
+  }
+  await writeModDataFile(mod, patch)
+}
+
+ipcMain.handle('mods:setTags', async (_e, character: string, modName: string, patch: { tags?: string[]; favorite?: boolean }) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
-  if (!character?.trim() || !modName?.trim()) throw new Error('Character and modName are required')
-  const cdir = characterDir(modsRoot, character)
-  // Normalize: allow passing folder name with or without DISABLED_ prefix
-  const rawName = modName.replace(/^DISABLED_/i, '')
-  // Try to locate the directory among both enabled and disabled variants (case-insensitive)
-  const candidateEnabled = modDir(modsRoot, character, rawName)
-  const candidateDisabled = modDir(modsRoot, character, `DISABLED_${rawName}`)
-  let realDir: string | null = null
-  if (isDirectory(candidateEnabled)) realDir = candidateEnabled
-  else if (isDirectory(candidateDisabled)) realDir = candidateDisabled
-  if (realDir && isDirectory(realDir)) {
-    const baseFolder = path.basename(realDir)
-    if (/^DISABLED_/i.test(baseFolder)) {
-      const desiredBase = baseFolder.replace(/^DISABLED_/i, '')
-      let target = modDir(modsRoot, character, desiredBase)
-      if (target === realDir) return true
-      // Collision handling: append (n) until unique
-      if (isDirectory(target)) {
-        let i = 2
-        while (isDirectory(target)) {
-          target = modDir(modsRoot, character, `${desiredBase} (${i++})`)
-        }
+  const mod = await requireMod(modsRoot, character, modName)
+  const clean: { tags?: string[]; favorite?: boolean } = {}
+  if (patch?.tags !== undefined) clean.tags = normalizeTags(patch.tags)
+  if (patch?.favorite !== undefined) clean.favorite = !!patch.favorite
+  await writeModTags(mod, clean)
+  return clean
+})
+
+ipcMain.handle('tags:list', async () => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) return []
+  const lists: string[][] = []
+  for (const character of await listCharacterNames(modsRoot)) {
+    for (const m of await listDetailedMods(modsRoot, character)) lists.push(m.meta.tags || [])
+  }
+  return countTags(lists)
+})
+
+// Rename (or merge, when `to` already exists) a tag in every mod of the library; empty `to` deletes it
+async function replaceTagInLibrary(modsRoot: string, from: string, to: string) {
+  const result = { changed: 0, failed: [] as string[] }
+  for (const character of await listCharacterNames(modsRoot)) {
+    for (const m of await listDetailedMods(modsRoot, character)) {
+      const tags = normalizeTags(m.meta.tags)
+      if (!hasTag(tags, from)) continue
+      const mod = toResolvedMod(modsRoot, character, m.archive || m.folder, m.archive ? 'flat' : 'folder')
+      try {
+        await writeModTags(mod, { tags: replaceTag(tags, from, to) })
+        result.changed++
+      } catch (e) {
+        result.failed.push(`${character}/${m.folder}: ${e instanceof Error ? e.message : String(e)}`)
       }
-      await fsp.rename(realDir, target)
-      try { await writeModMeta(target, { name: path.basename(target), enabled: true }) } catch {}
-      try { win?.webContents.send('fs-changed', { root: cdir }) } catch {}
-      return true
     }
-    // Already enabled folder
-    try { await writeModMeta(realDir, { name: rawName, enabled: true }) } catch {}
-    return true
   }
-  // Flat archive fallback: remove DISABLED_ prefix from archive filename
-  const files = await fsp.readdir(cdir)
-  const targetArch = files.find((f) => /^DISABLED_/i.test(f) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === rawName.toLowerCase())
-    || files.find((f) => /^DISABLED_/i.test(f) && f.toLowerCase().includes(rawName.toLowerCase()))
-  if (!targetArch) return false
-  const from = path.join(cdir, targetArch)
-  const to = path.join(cdir, targetArch.replace(/^DISABLED_/i, ''))
-  try { await fsp.rm(to, { force: true }) } catch {}
-  await fsp.rename(from, to)
-  try { win?.webContents.send('fs-changed', { root: cdir }) } catch {}
-  return true
+  try { win?.webContents.send('fs-changed', { root: modsRoot }) } catch { /* window already closed */ }
+  return result
+}
+
+ipcMain.handle('tags:rename', async (_e, from: string, to: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const [target] = normalizeTags([to])
+  if (!from?.trim() || !target) throw new Error('Tag name required')
+  return replaceTagInLibrary(modsRoot, from, target)
 })
 
-// Flat archive enable (no folder) - separate handler for new structure
-ipcMain.handle('mods:enableFlat', async (_e, character: string, modName: string) => {
+ipcMain.handle('tags:delete', async (_e, tag: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
-  const cdir = characterDir(modsRoot, character)
-  const files = await fsp.readdir(cdir)
-  const target = files.find((f) => /^DISABLED_/i.test(f) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-    || files.find((f) => /^DISABLED_/i.test(f) && f.toLowerCase().includes(modName.toLowerCase()))
-  if (!target) return false
-  const from = path.join(cdir, target)
-  const to = path.join(cdir, target.replace(/^DISABLED_/i, ''))
-  try { await fsp.rm(to, { force: true }) } catch {}
-  await fsp.rename(from, to)
-  try { win?.webContents.send('fs-changed', { root: cdir }) } catch {}
-  return true
+  if (!tag?.trim()) throw new Error('Tag name required')
+  return replaceTagInLibrary(modsRoot, tag, '')
 })
 
-// Disable a single mod: ensure its archive(s) are prefixed with DISABLED_
-ipcMain.handle('mods:disable', async (_e, character: string, modName: string) => {
+// Texture hashes overridden by more than one enabled mod of the character (the game mixes them)
+ipcMain.handle('mods:getConflicts', async (_e, character: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) return []
+  const items = (await listModItems(modsRoot, character)).filter((item) => item.meta.enabled)
+  if (items.length < 2) return []
+  const tasks = items.map((item) => async () => {
+    const mod = toResolvedMod(modsRoot, character, item.archive || item.folder, item.archive ? 'flat' : 'folder')
+    let summary: IniSummary | null = null
+    try { summary = await getModIniSummary(mod) } catch { /* unreadable mod: left out of the comparison */ }
+    return { id: item.folder, owner: item.folder, summary }
+  })
+  const list = (await runLimited(tasks, 4)).filter((x): x is { id: string; owner: string; summary: IniSummary } => !!x.summary)
+  return findHashCollisions(list).map((c) => ({
+    hash: c.hash,
+    matchFirstIndex: c.matchFirstIndex,
+    mods: c.owners.map((o) => ({ mod: o.owner, file: o.file, section: o.section })),
+  }))
+})
+
+// Library-wide report: every enabled mod under modsRoot grouped by overridden texture hash.
+// Collisions between different character folders usually mean a misfiled mod or a shared asset
+// (weapons, Bangboo, UI) replaced twice.
+ipcMain.handle('mods:getConflictReport', async () => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) return { scanned: 0, collisions: [] }
+  const characters = await listCharacterDirs(modsRoot)
+  const tasks: Array<() => Promise<{ id: string; owner: { character: string; mod: string }; summary: IniSummary | null }>> = []
+  for (const character of characters) {
+    const items = (await listModItems(modsRoot, character)).filter((item) => item.meta.enabled)
+    for (const item of items) {
+      tasks.push(async () => {
+        const mod = toResolvedMod(modsRoot, character, item.archive || item.folder, item.archive ? 'flat' : 'folder')
+        let summary: IniSummary | null = null
+        try { summary = await getModIniSummary(mod) } catch { /* unreadable mod: left out of the report */ }
+        return { id: `${character}/${item.folder}`, owner: { character, mod: item.folder }, summary }
+      })
+    }
+  }
+  const list = (await runLimited(tasks, 4)).filter((x): x is { id: string; owner: { character: string; mod: string }; summary: IniSummary } => !!x.summary)
+  const collisions = findHashCollisions(list).map((c) => ({
+    hash: c.hash,
+    matchFirstIndex: c.matchFirstIndex,
+    crossCharacter: new Set(c.owners.map((o) => o.owner.character.toLowerCase())).size > 1,
+    mods: c.owners.map((o) => ({ character: o.owner.character, mod: o.owner.mod, file: o.file, section: o.section })),
+  }))
+  return { scanned: list.length, collisions }
+})
+
+type ExclusivePlan = {
+  steps: RenameStep[]
+  meta: Array<{ dir: string; name: string; enabled: boolean }> // folder mods, at their new path
+  changes: Array<{ from: string; to: string }>
+  skipped: string[]
+}
+
+// Where `mod` goes when disabled. A folder whose DISABLED_ name is taken (on disk or by another
+// rename of the same transaction) gets a numeric suffix like setModEnabled does; a flat archive
+// never overwrites one, so null then.
+function freeDisabledPath(modsRoot: string, mod: ResolvedMod, claimed: Set<string>): string | null {
+  const taken = (p: string) => fs.existsSync(p) || claimed.has(p.toLowerCase())
+  let to = mod.disabledPath
+  if (!taken(to)) return to
+  if (mod.kind !== 'folder') return null
+  let i = 2
+  while (taken(to)) to = modDir(modsRoot, mod.character, `DISABLED_${mod.name} (${i++})`)
+  return to
+}
+
+// Plan the renames that leave `target` as the only enabled mod of its character: its folder or flat
+// archive loses the DISABLED_ prefix and every other one gets it. Targets already planned by other
+// characters in the same transaction are passed in `claimed`. Mods that cannot be disabled end up
+// in `skipped`.
+async function planExclusiveActivation(modsRoot: string, target: ResolvedMod, claimed = new Set<string>()): Promise<ExclusivePlan> {
+  const plan: ExclusivePlan = { steps: [], meta: [], changes: [], skipped: [] }
+  for (const item of await listModItems(modsRoot, target.character)) {
+    const mod = toResolvedMod(modsRoot, target.character, item.archive || item.folder, item.archive ? 'flat' : 'folder')
+    const enable = mod.kind === target.kind && mod.entry === target.entry
+    if (mod.enabled === enable) continue
+    const to = enable ? mod.enabledPath : freeDisabledPath(modsRoot, mod, claimed)
+    if (!to) {
+      plan.skipped.push(`${mod.character}/${mod.name}`)
+      continue
+    }
+    const key = to.toLowerCase()
+    if (enable && (fs.existsSync(to) || claimed.has(key))) throw new Error(`Cannot enable ${mod.name}: ${path.basename(to)} already exists`)
+    claimed.add(key)
+    plan.steps.push({ from: mod.path, to })
+    plan.changes.push({ from: mod.path, to })
+    if (mod.kind === 'folder') plan.meta.push({ dir: to, name: mod.name, enabled: enable })
+  }
+  return plan
+}
+
+async function writeExclusiveMeta(plan: ExclusivePlan) {
+  for (const u of plan.meta) {
+    try { await writeModMeta(u.dir, { name: u.name, enabled: u.enabled }) } catch { /* mod.json only caches what the folder name says */ }
+  }
+}
+
+// Enable `target` and disable every other mod of its character. Nothing is renamed when a sibling
+// cannot be disabled (a flat archive whose DISABLED_ name is taken): the policy would not hold.
+async function activateExclusive(modsRoot: string, target: ResolvedMod, label: string) {
+  const plan = await planExclusiveActivation(modsRoot, target)
+  if (plan.skipped.length) throw new Error(`Cannot disable ${plan.skipped.join(', ')}: the DISABLED_ name already exists`)
+  await runRenameTransaction(renameJournalPath(), label, plan.steps)
+  await writeExclusiveMeta(plan)
+  // Notify renderer
+  try { win?.webContents.send('fs-changed', { root: characterDir(modsRoot, target.character) }) } catch { /* window already closed */ }
+  return true
+}
+
+// Activate one mod exclusively: enable it and add DISABLED_ to every other mod of the character
+ipcMain.handle('mods:activateExclusive', async (_e, character: string, targetMod: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
-  if (!character?.trim() || !modName?.trim()) throw new Error('Character and modName are required')
-  const cdir = characterDir(modsRoot, character)
-  const rawName = modName.replace(/^DISABLED_/i, '')
-  const candidateEnabled = modDir(modsRoot, character, rawName)
-  const candidateDisabled = modDir(modsRoot, character, `DISABLED_${rawName}`)
-  let realDir: string | null = null
-  if (isDirectory(candidateEnabled)) realDir = candidateEnabled
-  else if (isDirectory(candidateDisabled)) realDir = candidateDisabled
-  if (realDir && isDirectory(realDir)) {
-    const baseFolder = path.basename(realDir)
-    if (!/^DISABLED_/i.test(baseFolder)) {
-      const target = modDir(modsRoot, character, `DISABLED_${baseFolder}`)
-      // Collision safety: if target exists for some reason, append numeric suffix
-      let finalTarget = target
-      if (isDirectory(finalTarget)) {
-        let i = 2
-        while (isDirectory(finalTarget)) {
-          finalTarget = modDir(modsRoot, character, `DISABLED_${baseFolder} (${i++})`)
-        }
-      }
-      await fsp.rename(realDir, finalTarget)
-      try { await writeModMeta(finalTarget, { name: baseFolder, enabled: false }) } catch {}
-      try { win?.webContents.send('fs-changed', { root: cdir }) } catch {}
+  if (!character?.trim() || !targetMod?.trim()) throw new Error('Character and target mod are required')
+  return activateExclusive(modsRoot, await requireMod(modsRoot, character, targetMod), 'mods:activateExclusive')
+})
+
+// Toggle a resolved mod by adding/removing the DISABLED_ prefix on its folder or flat archive.
+// Folders get a numeric suffix on collision; a flat archive never overwrites an existing one.
+async function setModEnabled(modsRoot: string, mod: ResolvedMod, enabled: boolean) {
+  const cdir = characterDir(modsRoot, mod.character)
+  if (mod.kind === 'folder') {
+    if (mod.enabled === enabled) {
+      try { await writeModMeta(mod.path, { name: mod.name, enabled }) } catch { /* mod.json only caches what the folder name says */ }
       return true
     }
-    // Already disabled
-    try { await writeModMeta(realDir, { name: rawName, enabled: false }) } catch {}
+    let target = enabled ? mod.enabledPath : mod.disabledPath
+    if (isDirectory(target)) {
+      const prefix = enabled ? '' : 'DISABLED_'
+      let i = 2
+      while (isDirectory(target)) {
+        target = modDir(modsRoot, mod.character, `${prefix}${mod.name} (${i++})`)
+      }
+    }
+    await runRenameTransaction(renameJournalPath(), enabled ? 'mods:enable' : 'mods:disable', [{ from: mod.path, to: target }])
+    const finalName = path.basename(target)
+    try { await writeModMeta(target, { name: enabled ? finalName : mod.name, enabled }) } catch { /* mod.json only caches what the folder name says */ }
+    try { win?.webContents.send('fs-changed', { root: cdir }) } catch { /* window already closed */ }
     return true
   }
-  // Flat archive fallback: add DISABLED_ prefix to archive filename
-  const files = await fsp.readdir(cdir)
-  const targetArch = files.find((f) => !/^DISABLED_/i.test(f) && f.replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === rawName.toLowerCase())
-    || files.find((f) => !/^DISABLED_/i.test(f) && f.toLowerCase().includes(rawName.toLowerCase()))
-  if (!targetArch) return false
-  const from = path.join(cdir, targetArch)
-  const to = path.join(cdir, `DISABLED_${targetArch}`)
-  try { await fsp.rm(to, { force: true }) } catch {}
-  await fsp.rename(from, to)
+  if (mod.enabled === enabled) return true
+  const to = enabled ? mod.enabledPath : mod.disabledPath
+  // The journal refuses to overwrite an existing archive
+  await runRenameTransaction(renameJournalPath(), enabled ? 'mods:enable' : 'mods:disable', [{ from: mod.path, to }])
   try { win?.webContents.send('fs-changed', { root: cdir }) } catch {}
   return true
+}
+
+// Enable a single mod: remove DISABLED_ prefix from its folder or flat archive.
+// Characters with the single-active policy get an exclusive activation instead.
+ipcMain.handle('mods:enable', async (_e, character: string, modName: string) => {
+  const settings = await readSettings()
+  const { modsRoot } = settings
+  if (!modsRoot) throw new Error('Mods root not set')
+  if (!character?.trim() || !modName?.trim()) throw new Error('Character and modName are required')
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod) return false
+  if (isSingleActive(settings, character)) return activateExclusive(modsRoot, mod, 'mods:enable')
+  return setModEnabled(modsRoot, mod, true)
+})
+
+// Flat archive enable (no folder) - separate handler for new structure. Follows the single-active
+// policy like mods:enable.
+ipcMain.handle('mods:enableFlat', async (_e, character: string, modName: string) => {
+  const settings = await readSettings()
+  const { modsRoot } = settings
+  if (!modsRoot) throw new Error('Mods root not set')
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod || mod.kind !== 'flat') return false
+  if (isSingleActive(settings, character)) return activateExclusive(modsRoot, mod, 'mods:enableFlat')
+  return setModEnabled(modsRoot, mod, true)
+})
+
+// Disable a single mod: add DISABLED_ prefix to its folder or flat archive
+ipcMain.handle('mods:disable', async (_e, character: string, modName: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  if (!character?.trim() || !modName?.trim()) throw new Error('Character and modName are required')
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod) return false
+  return setModEnabled(modsRoot, mod, false)
 })
 
 // Flat archive disable (no folder)
 ipcMain.handle('mods:disableFlat', async (_e, character: string, modName: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
-  const cdir = characterDir(modsRoot, character)
-  const files = await fsp.readdir(cdir)
-  const target = files.find((f) => !/^DISABLED_/i.test(f) && f.replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-    || files.find((f) => !/^DISABLED_/i.test(f) && f.toLowerCase().includes(modName.toLowerCase()))
-  if (!target) return false
-  const from = path.join(cdir, target)
-  const to = path.join(cdir, `DISABLED_${target}`)
-  try { await fsp.rm(to, { force: true }) } catch {}
-  await fsp.rename(from, to)
-  try { win?.webContents.send('fs-changed', { root: cdir }) } catch {}
-  return true
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod || mod.kind !== 'flat') return false
+  return setModEnabled(modsRoot, mod, false)
 })
 
 ipcMain.handle('mods:addFromArchive', async (_e, character: string, archivePath: string, modName: string, meta: Partial<ModMeta> = {}) => {
@@ -1178,34 +2180,26 @@ ipcMain.handle('mods:addFromArchive', async (_e, character: string, archivePath:
   ensureDirSync(mdir)
   await extractArchive(archivePath, mdir)
   await writeModMeta(mdir, { name: modName, ...meta })
+  try { await recordInstall(toResolvedMod(modsRoot, character, modName, 'folder'), archivePath, meta.version) } catch { /* only used by the update check */ }
   return true
 })
 
 // Removed legacy uniqueModName (no longer used)
 
-ipcMain.handle('mods:copyArchiveToModFolder', async (_e, character: string, archivePath: string) => {
-  const { modsRoot } = await readSettings()
-  if (!modsRoot) throw new Error('Mods root not set')
-  if (!character?.trim()) throw new Error('Character required')
-  if (!archivePath) throw new Error('Archive required')
-  const originalName = path.basename(archivePath)
-  const base = originalName.replace(/\.(zip|7z|rar)$/i, '')
-  // Generate unique base name among existing archives (flat) and legacy folders
-  const cdir = characterDir(modsRoot, character)
-  await fsp.mkdir(cdir, { recursive: true })
+// First free mod name in a character folder, checking flat archives (enabled or not) and folders
+function freeModName(cdir: string, base: string) {
   let modName = base
   let i = 2
   while (true) {
     const collisionArchive = ['.zip', '.7z', '.rar'].some((ext) => fs.existsSync(path.join(cdir, `${modName}${ext}`)) || fs.existsSync(path.join(cdir, `DISABLED_${modName}${ext}`)))
-    const collisionFolder = fs.existsSync(path.join(cdir, modName))
-    if (!collisionArchive && !collisionFolder) break
+    const collisionFolder = fs.existsSync(path.join(cdir, modName)) || fs.existsSync(path.join(cdir, `DISABLED_${modName}`))
+    if (!collisionArchive && !collisionFolder) return modName
     modName = `${base} (${i++})`
   }
-  // Create folder and extract archive there (convert archive to folder-based mod)
-  const destDir = path.join(cdir, modName)
-  await fsp.mkdir(destDir, { recursive: true })
-  await extractArchive(archivePath, destDir)
-  // Flatten single top-level folder
+}
+
+// Archives often wrap everything in one top-level folder; move its contents up
+async function flattenSingleTopFolder(destDir: string) {
   try {
     const ents = await fsp.readdir(destDir, { withFileTypes: true })
     const fileCount = ents.filter(e => e.isFile()).length
@@ -1219,37 +2213,159 @@ ipcMain.handle('mods:copyArchiveToModFolder', async (_e, character: string, arch
       try { await fsp.rmdir(inner) } catch {}
     }
   } catch {}
-  try { await writeModMeta(destDir, { name: modName, enabled: true }) } catch {}
-  return { modName, dir: cdir }
-})
+}
 
-ipcMain.handle('mods:saveImageFromDataUrl', async (_e, character: string, modName: string, dataUrl: string) => {
-  const { modsRoot } = await readSettings()
-  if (!modsRoot) throw new Error('Mods root not set')
+type ArchiveInstallOptions = {
+  password?: string
+  unpackNested?: boolean // extract archives found inside the archive before flattening
+  variants?: string[] // variants to keep from a multi-variant pack (all when missing)
+  activeVariant?: string
+}
+
+// Multi-variant packs: drop the variants that were not chosen and leave only the active one enabled.
+// Without a choice the variant the pack ships enabled stays active (the first one otherwise).
+async function applyVariantChoice(destDir: string, opts: ArchiveInstallOptions): Promise<Pick<ModMeta, 'variants' | 'activeVariant'>> {
+  const found = findVariants(await listFolderFiles(destDir))
+  if (found.length === 0) return {}
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+  const chosen = opts.variants?.length ? found.filter((v) => opts.variants!.some((c) => same(c, v))) : found
+  const keep = chosen.length ? chosen : found
+  const tops = (await fsp.readdir(destDir, { withFileTypes: true })).filter((e) => e.isDirectory())
+  for (const e of tops) {
+    if (found.some((v) => same(v, variantName(e.name))) && !keep.some((v) => same(v, variantName(e.name)))) {
+      await fsp.rm(path.join(destDir, e.name), { recursive: true, force: true })
+    }
+  }
+  const shippedActive = keep.find((v) => tops.some((e) => e.name === v))
+  const active = keep.find((v) => opts.activeVariant && same(v, opts.activeVariant)) || shippedActive || keep[0]
+  for (const { from, to } of variantRenameSteps(destDir, tops.map((e) => e.name), keep, active)) await fsp.rename(from, to)
+  return keep.length >= 2 ? { variants: keep, activeVariant: active } : {}
+}
+
+// Install an archive as a folder mod of `character` (used by the add modal and the download queue)
+async function installArchiveToModFolder(modsRoot: string, character: string, archivePath: string, opts: ArchiveInstallOptions = {}) {
+  const originalName = path.basename(archivePath)
+  const base = originalName.replace(/\.(zip|7z|rar)$/i, '')
   const cdir = characterDir(modsRoot, character)
   await fsp.mkdir(cdir, { recursive: true })
-  const m = /^data:(.+?);base64,(.*)$/.exec(dataUrl)
-  if (!m) throw new Error('Unsupported data URL')
-  const mime = m[1]
-  const b64 = m[2]
+  const modName = freeModName(cdir, base)
+  // Create folder and extract archive there (convert archive to folder-based mod)
+  const destDir = path.join(cdir, modName)
+  await fsp.mkdir(destDir, { recursive: true })
+  try {
+    await extractArchive(archivePath, destDir, opts.password)
+    if (opts.unpackNested) await unpackNestedArchives(destDir, opts.password)
+  } catch (e) {
+    // Do not leave a half-extracted mod behind (wrong password, corrupt archive...)
+    try { await fsp.rm(destDir, { recursive: true, force: true }) } catch { /* the extraction error below is what matters */ }
+    throw e
+  }
+  await flattenSingleTopFolder(destDir)
+  const variants = await applyVariantChoice(destDir, opts)
+  try { await writeModMeta(destDir, { name: modName, enabled: true, ...variants }) } catch { /* variants are found again on the next listing */ }
+  try { await recordInstall(toResolvedMod(modsRoot, character, modName, 'folder'), archivePath) } catch { /* only used by the update check */ }
+  return { modName, dir: cdir }
+}
+
+// Copy an already extracted mod folder (dropped from the file explorer); the source is left untouched
+async function installFolderToModFolder(modsRoot: string, character: string, folderPath: string) {
+  const cdir = characterDir(modsRoot, character)
+  if (isPathInside(folderPath, cdir)) throw new Error('The folder is already inside this character')
+  // Copying a folder into itself would never end
+  if (isPathInside(cdir, folderPath)) throw new Error('The character folder is inside the selected folder')
+  await fsp.mkdir(cdir, { recursive: true })
+  const modName = freeModName(cdir, path.basename(folderPath).replace(/^DISABLED_/i, ''))
+  const destDir = path.join(cdir, modName)
+  await fsp.cp(folderPath, destDir, { recursive: true, errorOnExist: true })
+  await flattenSingleTopFolder(destDir)
+  try { await writeModMeta(destDir, { name: modName, enabled: true }) } catch { /* mod.json only caches what the folder name says */ }
+  return { modName, dir: cdir }
+}
+
+ipcMain.handle('mods:copyArchiveToModFolder', async (_e, character: string, archivePath: string, opts: ArchiveInstallOptions = {}) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  if (!character?.trim()) throw new Error('Character required')
+  if (!archivePath) throw new Error('Archive required')
+  return installArchiveToModFolder(modsRoot, character, archivePath, opts)
+})
+
+// What the install modal needs to know before extracting: password and archives inside the archive
+// Also returns the file tree (capped) and the safety check shown before installing
+const INSPECT_MAX_ENTRIES = 5000
+
+ipcMain.handle('mods:inspectArchive', async (_e, archivePath: string, password?: string) => {
+  if (!archivePath) throw new Error('Archive required')
+  const encrypted = await isArchiveEncrypted(archivePath)
+  let entries: ArchiveEntry[] | null = null
+  try { entries = await listArchiveEntries(archivePath, password) } catch { /* not listable (e.g. encrypted headers): contents unknown */ }
+  if (!entries) return { encrypted, nested: [], variants: [], listed: false, entries: [], truncated: false, check: null }
+  return {
+    encrypted,
+    nested: entries.filter((e) => !e.folder && ARCHIVE_EXT_RE.test(e.path)).map((e) => e.path),
+    variants: findVariants(entries),
+    listed: true,
+    entries: entries.slice(0, INSPECT_MAX_ENTRIES).map((e) => ({ path: e.path, folder: e.folder, size: e.size })),
+    truncated: entries.length > INSPECT_MAX_ENTRIES,
+    check: checkArchiveEntries(entries),
+  }
+})
+
+// Dropped files/folders: what each one is and the internal name it would install (batch install queue)
+ipcMain.handle('mods:inspectDropped', async (_e, paths: string[]) => {
+  const out: Array<{ path: string; name: string; kind: 'archive' | 'folder' | 'unsupported'; internalName: string | null }> = []
+  for (const p of Array.isArray(paths) ? paths : []) {
+    const name = path.basename(p)
+    let stat: fs.Stats | null = null
+    try { stat = await fsp.stat(p) } catch { /* missing path: reported as unsupported */ }
+    if (stat?.isDirectory()) {
+      let internalName: string | null = name
+      try {
+        const ents = (await fsp.readdir(p, { withFileTypes: true })).filter((e) => e.name.toLowerCase() !== 'data.txt' && e.name.toLowerCase() !== 'mod.json')
+        const dirs = ents.filter((e) => e.isDirectory())
+        if (dirs.length === 1 && ents.every((e) => e.isDirectory())) internalName = dirs[0].name
+      } catch { /* unreadable folder: keeps its own name */ }
+      out.push({ path: p, name, kind: 'folder', internalName })
+    } else if (stat?.isFile() && /\.(zip|7z|rar)$/i.test(name)) {
+      let internalName: string | null = null
+      try { internalName = await getPrimaryInternalNameFromArchive(p) } catch { /* no internal name to suggest */ }
+      out.push({ path: p, name, kind: 'archive', internalName })
+    } else {
+      out.push({ path: p, name, kind: 'unsupported', internalName: null })
+    }
+  }
+  return out
+})
+
+ipcMain.handle('mods:installFromFolder', async (_e, character: string, folderPath: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  if (!character?.trim()) throw new Error('Character required')
+  if (!folderPath || !isDirectory(folderPath)) throw new Error('Folder not found')
+  return installFolderToModFolder(modsRoot, character, folderPath)
+})
+
+ipcMain.handle('mods:saveImageFromDataUrl', async (_e, character: string, modName: string, dataUrl: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const m = /^data:(.+?);base64,(.*)$/.exec(dataUrl)
+  if (!m) throw new Error('Unsupported data URL')
+  const mime = m[1]
+  const b64 = m[2]
   const buf = Buffer.from(b64, 'base64')
   let ext = '.png'
   if (mime.includes('jpeg')) ext = '.jpg'
   else if (mime.includes('webp')) ext = '.webp'
   else if (mime.includes('gif')) ext = '.gif'
+  const mod = await requireMod(modsRoot, character, modName)
+  invalidateModIndex(mod)
   // Folder-based: write preview file directly
-  const mdir = modDir(modsRoot, character, modName)
-  if (isDirectory(mdir)) {
-    const out = path.join(mdir, `preview${ext}`)
+  if (mod.kind === 'folder') {
+    const out = path.join(mod.path, `preview${ext}`)
     await fsp.writeFile(out, buf)
     return `preview${ext}`
   }
-  // Find the target archive (prefer enabled)
-  const files = await fsp.readdir(cdir)
-  const target = files.find((f) => /\.(zip|7z|rar)$/i.test(f) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-    || files.find((f) => /\.(zip|7z|rar)$/i.test(f) && f.toLowerCase().includes(modName.toLowerCase()))
-  if (!target) throw new Error('Archive not found for mod')
-  const archivePath = path.join(cdir, target)
+  const archivePath = mod.path
   // Write temp preview file with the desired name
   const tmpDir = path.join(os.tmpdir(), `zzzmm_${Date.now()}_${Math.random().toString(36).slice(2)}`)
   await fsp.mkdir(tmpDir, { recursive: true })
@@ -1269,8 +2385,8 @@ ipcMain.handle('mods:saveImageFromDataUrl', async (_e, character: string, modNam
 ipcMain.handle('mods:saveImageFromUrl', async (_e, character: string, modName: string, imageUrl: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
-  const cdir = characterDir(modsRoot, character)
-  await fsp.mkdir(cdir, { recursive: true })
+  const mod = await requireMod(modsRoot, character, modName)
+  invalidateModIndex(mod)
   // Download buffer
   const tmp = await downloadToTemp(imageUrl)
   let urlExt = '.png'
@@ -1280,19 +2396,13 @@ ipcMain.handle('mods:saveImageFromUrl', async (_e, character: string, modName: s
     if (['.png', '.jpg', '.jpeg', '.webp', '.gif'].includes(e)) urlExt = e
   } catch {}
   // Folder-based: copy preview into folder
-  const mdir2 = modDir(modsRoot, character, modName)
-  if (isDirectory(mdir2)) {
-    const out = path.join(mdir2, `preview${urlExt}`)
+  if (mod.kind === 'folder') {
+    const out = path.join(mod.path, `preview${urlExt}`)
     await fsp.copyFile(tmp, out)
     try { await fsp.unlink(tmp) } catch {}
     return `preview${urlExt}`
   }
-  // Find target archive
-  const files = await fsp.readdir(cdir)
-  const target = files.find((f) => /\.(zip|7z|rar)$/i.test(f) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-    || files.find((f) => /\.(zip|7z|rar)$/i.test(f) && f.toLowerCase().includes(modName.toLowerCase()))
-  if (!target) throw new Error('Archive not found for mod')
-  const archivePath = path.join(cdir, target)
+  const archivePath = mod.path
   // Place tmp image with desired name in a temp dir then add via 7z
   const tmpDir = path.join(os.tmpdir(), `zzzmm_${Date.now()}_${Math.random().toString(36).slice(2)}`)
   await fsp.mkdir(tmpDir, { recursive: true })
@@ -1315,9 +2425,10 @@ ipcMain.handle('mods:saveImageFromUrl', async (_e, character: string, modName: s
 ipcMain.handle('mods:saveMetadata', async (_e, character: string, modName: string, meta: Partial<ModMeta>) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
-  const mdir = modDir(modsRoot, character, modName)
-  if (isDirectory(mdir)) {
-    const saved = await writeModMeta(mdir, { name: modName, ...meta })
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (mod) invalidateModIndex(mod)
+  if (mod?.kind === 'folder') {
+    const saved = await writeModMeta(mod.path, { name: modName, ...meta })
     return saved
   }
   // Flat mods: persist nothing here; metadata handled via archive data file + preview
@@ -1327,77 +2438,33 @@ ipcMain.handle('mods:saveMetadata', async (_e, character: string, modName: strin
 ipcMain.handle('mods:delete', async (_e, character: string, modName: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
-  const mdir = modDir(modsRoot, character, modName)
-  if (isDirectory(mdir)) {
-    await fsp.rm(mdir, { recursive: true, force: true })
-  } else {
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod) return true
+  const paths = [mod.path]
+  if (mod.kind === 'flat') {
+    // Flat archives may have a legacy side preview file next to them
     const cdir = characterDir(modsRoot, character)
-    // Remove archive (enabled or disabled) matching modName and the preview file
-    try {
-      const files = await fsp.readdir(cdir)
-      const arch = files.find((f) => f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-      if (arch) { try { await fsp.unlink(path.join(cdir, arch)) } catch {} }
-      const preview = ['.png', '.jpg', '.jpeg', '.webp', '.gif'].map((e) => `${modName}.preview${e}`).find((f) => fs.existsSync(path.join(cdir, f)))
-      if (preview) { try { await fsp.unlink(path.join(cdir, preview)) } catch {} }
-    } catch {}
+    const preview = ['.png', '.jpg', '.jpeg', '.webp', '.gif'].map((e) => `${mod.name}.preview${e}`).find((f) => fs.existsSync(path.join(cdir, f)))
+    if (preview) paths.push(path.join(cdir, preview))
   }
+  invalidateModIndex(mod)
+  await moveToTrash({ kind: 'mod', character, name: mod.name }, paths)
   return true
 })
 
 ipcMain.handle('mods:openPage', async (_e, character: string, modName: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) return false
-  // Folder-based: read data.txt directly
-  try {
-    const folderPath = modDir(modsRoot, character, modName)
-    if (isDirectory(folderPath)) {
-      const dataTxt = path.join(folderPath, 'data.txt')
-      const dataLegacy = path.join(folderPath, 'data')
-      const chosen = fs.existsSync(dataTxt) ? dataTxt : (fs.existsSync(dataLegacy) ? dataLegacy : null)
-      if (chosen) {
-        try { const j = JSON.parse(await fsp.readFile(chosen, 'utf-8')); if (j?.pageUrl) { await shell.openExternal(j.pageUrl); return true } } catch {}
-      }
-    }
-  } catch {}
-  // 1) Try archive-embedded data file first
+  const mod = await resolveMod(modsRoot, character, modName)
+  if (!mod) return false
+  // 1) data.txt (folder) or archive-embedded data file
   try {
-    const cdir = characterDir(modsRoot, character)
-    const files = await fsp.readdir(cdir)
-    const target = files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.replace(/^DISABLED_/i, '').replace(/\.(zip|7z|rar)$/i, '').toLowerCase() === modName.toLowerCase())
-      || files.find((f) => /(zip|7z|rar)$/i.test(path.extname(f)) && f.toLowerCase().includes(modName.toLowerCase()))
-    if (target) {
-      const archPath = path.join(cdir, target)
-      const tmpDir = path.join(os.tmpdir(), `zzzmm_open_${Date.now()}_${Math.random().toString(36).slice(2)}`)
-      await fsp.mkdir(tmpDir, { recursive: true })
-      const sevenPath = getSevenBinary()
-      // Try both data.txt and legacy data
-      await new Promise<void>((resolve) => {
-        const child = spawn(sevenPath, ['x', archPath, 'data.txt', `-o"${tmpDir}"`, '-y'])
-        child.on('error', () => resolve())
-        child.on('close', () => resolve())
-      })
-      await new Promise<void>((resolve) => {
-        const child = spawn(sevenPath, ['x', archPath, 'data', `-o"${tmpDir}"`, '-y'])
-        child.on('error', () => resolve())
-        child.on('close', () => resolve())
-      })
-      const dataTxt = path.join(tmpDir, 'data.txt')
-      const dataLegacy = path.join(tmpDir, 'data')
-      const chosen = fs.existsSync(dataTxt) ? dataTxt : (fs.existsSync(dataLegacy) ? dataLegacy : null)
-      if (chosen) {
-        try {
-          const raw = await fsp.readFile(chosen, 'utf-8')
-          const j = JSON.parse(raw)
-          if (j?.pageUrl) { await shell.openExternal(j.pageUrl); try { await fsp.rm(tmpDir, { recursive: true, force: true }) } catch {}; return true }
-        } catch {}
-      }
-      try { await fsp.rm(tmpDir, { recursive: true, force: true }) } catch {}
-    }
+    const pageUrl = optionalString((await readModDataFile(mod))?.pageUrl)
+    if (pageUrl) { await shell.openExternal(pageUrl); return true }
   } catch {}
   // 2) Fallback to legacy mod.json
-  const mdir = modDir(modsRoot, character, modName)
-  if (isDirectory(mdir)) {
-    const meta = await readModMeta(mdir)
+  if (mod.kind === 'folder') {
+    const meta = await readModMeta(mod.path)
     if (meta.pageUrl) { await shell.openExternal(meta.pageUrl); return true }
   }
   return false
@@ -1409,8 +2476,8 @@ ipcMain.handle('mods:openFolder', async (_e, character: string, modName?: string
   let target = modsRoot
   if (character) target = characterDir(modsRoot, character)
   if (modName) {
-    const mdir = modDir(modsRoot, character, modName)
-    target = isDirectory(mdir) ? mdir : characterDir(modsRoot, character)
+    const mod = await resolveMod(modsRoot, character, modName)
+    target = mod?.kind === 'folder' ? mod.path : characterDir(modsRoot, character)
   }
   await shell.openPath(target)
   return true
@@ -1419,7 +2486,9 @@ ipcMain.handle('mods:openFolder', async (_e, character: string, modName?: string
 ipcMain.handle('mods:updateFromUrl', async (_e, character: string, modName: string) => {
   const { modsRoot } = await readSettings()
   if (!modsRoot) throw new Error('Mods root not set')
-  const mdir = modDir(modsRoot, character, modName)
+  const mod = await requireMod(modsRoot, character, modName)
+  if (mod.kind !== 'folder') throw new Error('No updateUrl in mod.json')
+  const mdir = mod.path
   const meta = await readModMeta(mdir)
   if (!meta.updateUrl) throw new Error('No updateUrl in mod.json')
   const tmp = await downloadToTemp(meta.updateUrl)
@@ -1431,6 +2500,775 @@ ipcMain.handle('mods:updateFromUrl', async (_e, character: string, modName: stri
 
 // Note: 'characters:updateImages' feature was removed intentionally.
 
+// --------------------------- Updates ---------------------------
+// The archive a mod was installed from is recorded in its data.txt (`install`); mods whose pageUrl
+// points at a supported site are checked against the site's file listing. Results are kept in
+// userData/update-status.json so the cards can show a badge without hitting the network.
+// SYLEAF_GAMEBANANA_API points GameBanana requests at another API base (e.g. a local stand-in server).
+const gameBananaApiBase = process.env.SYLEAF_GAMEBANANA_API || undefined
+const updateSources = [gameBananaSource(gameBananaApiBase)]
+const updateStatusPath = () => path.join(userDataDir(), 'update-status.json')
+
+async function recordInstall(mod: ResolvedMod, archivePath: string, version?: string) {
+  const st = await fsp.stat(archivePath)
+  const install: InstallRecord = {
+    fileName: path.basename(archivePath),
+    fileSize: st.size,
+    fileDate: st.mtime.toISOString(),
+    installedAt: new Date().toISOString(),
+    version: version || undefined,
+  }
+  await writeModDataFile(mod, { install })
+}
+
+function updateStatusKey(character: string, modName: string) {
+  return `${character}/${modName.replace(DISABLED_RE, '')}`.toLowerCase()
+}
+
+async function readUpdateStatus(): Promise<Record<string, UpdateCheckResult>> {
+  try {
+    const j = JSON.parse(await fsp.readFile(updateStatusPath(), 'utf-8'))
+    if (j && typeof j === 'object') return j
+  } catch { /* no check has run yet */ }
+  return {}
+}
+
+async function writeUpdateStatus(status: Record<string, UpdateCheckResult>) {
+  await fsp.mkdir(userDataDir(), { recursive: true })
+  await fsp.writeFile(updateStatusPath(), JSON.stringify(status, null, 2), 'utf-8')
+}
+
+async function checkModForUpdate(mod: ResolvedMod): Promise<UpdateCheckResult> {
+  let data: Record<string, unknown> = {}
+  try { data = asJsonObject(await readModDataFile(mod)) } catch { /* no data.txt: no page URL, reported as unsupported */ }
+  const install = data.install && typeof data.install === 'object' ? (data.install as InstallRecord) : null
+  // Version imported from the mod page (data.txt) or typed into mod.json
+  let version = typeof data.version === 'string' && data.version ? data.version : undefined
+  if (!version && mod.kind === 'folder') {
+    try { version = (await readModMeta(mod.path)).version } catch { /* unreadable mod.json: compare by file instead */ }
+  }
+  return checkForUpdate(typeof data.pageUrl === 'string' ? data.pageUrl : undefined, install, nodeHttpClient, updateSources, version)
+}
+
+ipcMain.handle('updates:check', async (_e, character: string, modName: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const mod = await requireMod(modsRoot, character, modName)
+  const result = await checkModForUpdate(mod)
+  const status = await readUpdateStatus()
+  status[updateStatusKey(character, mod.name)] = result
+  await writeUpdateStatus(status)
+  return result
+})
+
+// Check every mod of the library that has a supported page URL
+ipcMain.handle('updates:checkAll', async () => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const tasks: Array<() => Promise<{ key: string; character: string; mod: string; result: UpdateCheckResult }>> = []
+  for (const character of await listCharacterDirs(modsRoot)) {
+    for (const item of await listModItems(modsRoot, character)) {
+      const mod = toResolvedMod(modsRoot, character, item.archive || item.folder, item.archive ? 'flat' : 'folder')
+      tasks.push(async () => ({ key: updateStatusKey(character, mod.name), character, mod: mod.name, result: await checkModForUpdate(mod) }))
+    }
+  }
+  const results = await runLimited(tasks, 2)
+  const status: Record<string, UpdateCheckResult> = {}
+  for (const r of results) if (r.result.status !== 'unsupported') status[r.key] = r.result
+  await writeUpdateStatus(status)
+  return {
+    checked: Object.keys(status).length,
+    updates: results.filter((r) => r.result.status === 'update').map((r) => ({ character: r.character, mod: r.mod, latest: r.result.latest?.name })),
+    errors: results.filter((r) => r.result.status === 'error').map((r) => ({ character: r.character, mod: r.mod, message: r.result.message })),
+  }
+})
+
+// Last known results for the mods of a character, keyed by mod name without DISABLED_
+ipcMain.handle('updates:getStatus', async (_e, character: string) => {
+  const status = await readUpdateStatus()
+  const prefix = `${character}/`.toLowerCase()
+  const result: Record<string, UpdateCheckResult> = {}
+  for (const [key, value] of Object.entries(status)) {
+    if (key.startsWith(prefix)) result[key.slice(prefix.length)] = value
+  }
+  return result
+})
+
+// --------------------------- Remote metadata ---------------------------
+// Mod details imported from the mod page (GameBanana). Stored in data.txt for every mod and, for
+// folder mods, also in mod.json (author/description/version).
+type ModInfo = {
+  title?: string
+  author?: string
+  description?: string
+  version?: string
+  files?: RemoteFile[]
+}
+
+ipcMain.handle('gamebanana:fetchMod', async (_e, pageUrl: string) => {
+  const ref = parseGameBananaUrl(String(pageUrl || '').trim())
+  if (!ref) throw new Error('Not a GameBanana mod URL')
+  return fetchGameBananaMod(nodeHttpClient, ref.id, gameBananaApiBase)
+})
+
+ipcMain.handle('mods:saveInfo', async (_e, character: string, modName: string, payload: unknown) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const mod = await requireMod(modsRoot, character, modName)
+  invalidateModIndex(mod)
+  const raw = asJsonObject(payload)
+  const clean = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : undefined)
+  const files = (Array.isArray(raw.files) ? raw.files : []).map(asJsonObject).filter((f) => typeof f.name === 'string' && f.name)
+  const info: ModInfo = {
+    title: clean(raw.title),
+    author: clean(raw.author),
+    description: clean(raw.description),
+    version: clean(raw.version),
+    files: files.length ? (files as RemoteFile[]) : undefined,
+  }
+  await writeModDataFile(mod, info)
+  if (mod.kind === 'folder') {
+    await writeModMeta(mod.path, { name: mod.name, author: info.author, description: info.description, version: info.version })
+  }
+  return true
+})
+
+// --------------------------- Downloads ---------------------------
+// "Agregar desde URL": archives are downloaded to userData/downloads/<id>/ and installed through the
+// same path as mods:copyArchiveToModFolder. Progress reaches the renderer as `downloads-changed`.
+const DOWNLOAD_EVENT_INTERVAL_MS = 250
+const downloadsDir = () => path.join(userDataDir(), 'downloads')
+
+let downloadEventTimer: NodeJS.Timeout | null = null
+function sendDownloadsChanged() {
+  if (downloadEventTimer) return
+  downloadEventTimer = setTimeout(() => {
+    downloadEventTimer = null
+    try { win?.webContents.send('downloads-changed', downloads.list()) } catch { /* window closed */ }
+  }, DOWNLOAD_EVENT_INTERVAL_MS)
+}
+
+const downloads = createDownloadQueue({
+  baseDir: downloadsDir(),
+  concurrency: 2,
+  onChange: sendDownloadsChanged,
+  async install(item, filePath) {
+    const { modsRoot } = await readSettings()
+    if (!modsRoot) throw new Error('Mods root not set')
+    const { modName } = await installArchiveToModFolder(modsRoot, item.character, filePath)
+    if (item.pageUrl) {
+      try { await writeModDataFile(toResolvedMod(modsRoot, item.character, modName, 'folder'), { pageUrl: item.pageUrl }) } catch { /* installed; only the page link is lost */ }
+    }
+    try { win?.webContents.send('fs-changed', { root: characterDir(modsRoot, item.character) }) } catch { /* window closed */ }
+    return modName
+  },
+})
+
+// Leftovers from a previous session (the queue itself is not persisted)
+app.whenReady().then(() => {
+  if (gotSingleInstanceLock) fsp.rm(downloadsDir(), { recursive: true, force: true }).catch(() => {})
+})
+
+ipcMain.handle('downloads:add', async (_e, payload: unknown) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const req = asJsonObject(payload)
+  const character = typeof req.character === 'string' ? req.character.trim() : ''
+  if (!character) throw new Error('Character required')
+  return downloads.add({
+    url: typeof req.url === 'string' ? req.url : '',
+    character,
+    pageUrl: typeof req.pageUrl === 'string' ? req.pageUrl : undefined,
+    autoInstall: req.autoInstall !== false,
+  })
+})
+
+ipcMain.handle('downloads:list', async () => downloads.list())
+ipcMain.handle('downloads:cancel', async (_e, id: string) => downloads.cancel(id))
+ipcMain.handle('downloads:retry', async (_e, id: string) => downloads.retry(id))
+ipcMain.handle('downloads:remove', async (_e, id: string) => downloads.remove(id))
+
+// --------------------------- Character database ---------------------------
+// Bundled public/character-hashes.json (names and aliases only: detection by name), replaced by
+// userData/character-hashes.json when the user imports a database with hashes. Hashes learned from the sorted library go to character-hashes.local.json.
+const bundledHashDbPath = () => path.join(process.env.VITE_PUBLIC || RENDERER_DIST, 'character-hashes.json')
+const userHashDbPath = () => path.join(userDataDir(), 'character-hashes.json')
+const learnedHashDbPath = () => path.join(userDataDir(), 'character-hashes.local.json')
+
+async function readHashDbFile(file: string): Promise<CharacterHashDb | null> {
+  try {
+    return parseCharacterHashDb(JSON.parse(await fsp.readFile(file, 'utf-8')))
+  } catch {
+    return null
+  }
+}
+
+// The newest of the bundled and imported databases, plus where it came from
+async function loadCharacterHashDb(): Promise<{ db: CharacterHashDb; source: 'bundled' | 'user' | 'none' }> {
+  const bundled = await readHashDbFile(bundledHashDbPath())
+  const user = await readHashDbFile(userHashDbPath())
+  if (user && (!bundled || user.version >= bundled.version)) return { db: user, source: 'user' }
+  if (bundled) return { db: bundled, source: 'bundled' }
+  return { db: emptyCharacterHashDb(), source: 'none' }
+}
+
+async function loadLearnedHashDb() {
+  return (await readHashDbFile(learnedHashDbPath())) || emptyCharacterHashDb()
+}
+
+// Everything needed to suggest a character: library hashes + database hashes + names/aliases
+async function loadCharacterDetector(modsRoot: string) {
+  const folders = await listCharacterDirs(modsRoot)
+  const { db } = await loadCharacterHashDb()
+  const merged = mergeCharacterHashDbs(db, await loadLearnedHashDb())
+  const index = await buildLibraryHashIndex(modsRoot)
+  addDbToHashIndex(index, merged, folders)
+  const aliases = dbAliases(merged, folders)
+  const characters = Array.from(new Set([...folders, ...aliases.keys()]))
+  return { folders, characters, index, aliases }
+}
+
+ipcMain.handle('hashdb:info', async () => {
+  const { db, source } = await loadCharacterHashDb()
+  const learned = await loadLearnedHashDb()
+  return {
+    version: db.version,
+    updatedAt: db.updatedAt || null,
+    source,
+    characters: Object.keys(db.characters).length,
+    hashes: countHashes(db),
+    learned: countHashes(learned),
+  }
+})
+
+ipcMain.handle('hashdb:import', async () => {
+  const res = await dialog.showOpenDialog({ properties: ['openFile'], filters: [{ name: 'JSON', extensions: ['json'] }] })
+  if (res.canceled || res.filePaths.length === 0) return null
+  let incoming: CharacterHashDb
+  try {
+    incoming = parseCharacterHashDb(JSON.parse(await fsp.readFile(res.filePaths[0], 'utf-8')))
+  } catch (e) {
+    throw new Error(e instanceof Error ? e.message : 'Invalid JSON')
+  }
+  const { db } = await loadCharacterHashDb()
+  if (incoming.version < db.version) throw new Error(`The file is version ${incoming.version}; the current database is version ${db.version}`)
+  await fsp.mkdir(userDataDir(), { recursive: true })
+  await fsp.writeFile(userHashDbPath(), JSON.stringify(incoming, null, 2), 'utf-8')
+  return { version: incoming.version, characters: Object.keys(incoming.characters).length, hashes: countHashes(incoming) }
+})
+
+// Remember the hashes of the mods already sorted by character (only those unique to one character)
+ipcMain.handle('hashdb:learnFromLibrary', async () => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const index = await buildLibraryHashIndex(modsRoot)
+  const learned: CharacterHashDb = { version: 0, updatedAt: new Date().toISOString(), characters: {} }
+  for (const [hash, owners] of index) {
+    if (owners.size !== 1) continue
+    const [character] = owners
+    ;(learned.characters[character] ||= { hashes: [] }).hashes.push(hash)
+  }
+  const merged = mergeCharacterHashDbs(learned, await loadLearnedHashDb())
+  await fsp.mkdir(userDataDir(), { recursive: true })
+  await fsp.writeFile(learnedHashDbPath(), JSON.stringify(merged, null, 2), 'utf-8')
+  return { characters: Object.keys(merged.characters).length, hashes: countHashes(merged) }
+})
+
+// Character suggested by the hashes of an archive that is about to be added (AgregarMod)
+ipcMain.handle('mods:detectCharacter', async (_e, archivePath: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  if (!archivePath) throw new Error('Archive required')
+  const name = path.basename(archivePath).replace(/\.(zip|7z|rar)$/i, '')
+  const summary = isDirectory(archivePath) ? await summarizeIniDir(archivePath) : await summarizeArchiveIni(archivePath)
+  const { characters, index, aliases } = await loadCharacterDetector(modsRoot)
+  return suggestCharacter(name, summary, characters, index, aliases)
+})
+
+// --------------------------- Import wizard ---------------------------
+// Sorts a plain XXMI/ZZMI Mods folder (one loose folder per mod) into modsRoot/<Personaje>/<Mod>.
+// The scan proposes a character per folder; the renderer lets the user fix them before applying.
+
+type ImportCandidate = {
+  path: string
+  name: string // without the DISABLED prefix
+  enabled: boolean
+  iniFiles: number
+  suggestion: CharacterSuggestion
+}
+
+type ImportAssignment = { path: string; character: string }
+
+// Hashes of the mods already in the library, per character
+async function buildLibraryHashIndex(modsRoot: string): Promise<HashIndex> {
+  const tasks: Array<() => Promise<{ character: string; summary: IniSummary } | null>> = []
+  for (const character of await listCharacterDirs(modsRoot)) {
+    for (const item of await listModItems(modsRoot, character)) {
+      tasks.push(async () => {
+        const mod = toResolvedMod(modsRoot, character, item.archive || item.folder, item.archive ? 'flat' : 'folder')
+        try { return { character, summary: await getModIniSummary(mod) } } catch { return null }
+      })
+    }
+  }
+  const list = (await runLimited(tasks, 4)).filter((x): x is { character: string; summary: IniSummary } => !!x)
+  return buildHashIndex(list)
+}
+
+ipcMain.handle('import:scan', async (_e, sourceDir: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  if (!sourceDir || !isDirectory(sourceDir)) throw new Error('Folder not found')
+  if (isPathInside(sourceDir, modsRoot)) throw new Error('The folder is already inside the mods root')
+  const { characters, index, aliases } = await loadCharacterDetector(modsRoot)
+  const ents = (await fsp.readdir(sourceDir, { withFileTypes: true }))
+    .filter((e) => e.isDirectory() && !isPathInside(modsRoot, path.join(sourceDir, e.name)))
+  const tasks = ents.map((e) => async (): Promise<ImportCandidate> => {
+    const full = path.join(sourceDir, e.name)
+    const enabled = !/^DISABLED/i.test(e.name)
+    const name = e.name.replace(/^DISABLED_?/i, '') || e.name
+    let summary: IniSummary | null = null
+    try { summary = await summarizeIniDir(full) } catch { /* no INI: suggested by name only */ }
+    return { path: full, name, enabled, iniFiles: summary?.files.length || 0, suggestion: suggestCharacter(name, summary, characters, index, aliases) }
+  })
+  const items = await runLimited(tasks, 4)
+  items.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+  return { characters, items }
+})
+
+ipcMain.handle('import:apply', async (_e, sourceDir: string, assignments: ImportAssignment[], mode: 'move' | 'copy') => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const imported: Array<{ path: string; character: string; modName: string }> = []
+  const failed: Array<{ path: string; error: string }> = []
+  const unassigned: string[] = []
+  for (const a of Array.isArray(assignments) ? assignments : []) {
+    const character = String(a.character || '').trim()
+    if (!character) { unassigned.push(a.path); continue }
+    try {
+      // Only direct children of the scanned folder, into a plain character folder name
+      if (path.dirname(path.resolve(a.path)) !== path.resolve(sourceDir) || !isDirectory(a.path)) throw new Error('Not a folder of the scanned directory')
+      if (/[\\/]/.test(character) || character === '.' || character === '..') throw new Error(`Invalid character name: ${character}`)
+      const cdir = characterDir(modsRoot, character)
+      await fsp.mkdir(cdir, { recursive: true })
+      const base = path.basename(a.path)
+      const enabled = !/^DISABLED/i.test(base)
+      const modName = freeModName(cdir, base.replace(/^DISABLED_?/i, '') || base)
+      const dest = path.join(cdir, enabled ? modName : `DISABLED_${modName}`)
+      if (mode === 'copy') await fsp.cp(a.path, dest, { recursive: true, errorOnExist: true, force: false })
+      else await movePath(a.path, dest)
+      try { await writeModMeta(dest, { name: modName, enabled }) } catch { /* mod.json only caches what the folder name says */ }
+      imported.push({ path: a.path, character, modName })
+    } catch (e) {
+      failed.push({ path: a.path, error: e instanceof Error ? e.message : String(e) })
+    }
+  }
+  try { win?.webContents.send('fs-changed', { root: modsRoot }) } catch { /* window already closed */ }
+  return { imported, failed, unassigned }
+})
+
+// --------------------------- Randomizer ---------------------------
+// "Shuffle outfits": enable one random mod per character (exclusive activation) and disable the rest.
+// Every shuffle is recorded in userData/shuffle-history.json so the last one can be undone.
+const SHUFFLE_HISTORY_MAX = 20
+const FAVORITE_WEIGHT = 3
+const shuffleHistoryPath = () => path.join(userDataDir(), 'shuffle-history.json')
+
+type ShuffleEntry = {
+  at: string
+  character: string | null // null = whole library
+  picked: Array<{ character: string; mod: string }>
+  changes: Array<{ from: string; to: string }>
+}
+
+type ShuffleOptions = {
+  character?: string
+  weightFavorites?: boolean
+  excludeTags?: string[]
+}
+
+async function readShuffleHistory(): Promise<ShuffleEntry[]> {
+  try {
+    const j = JSON.parse(await fsp.readFile(shuffleHistoryPath(), 'utf-8'))
+    if (Array.isArray(j)) return j
+  } catch { /* no history yet */ }
+  return []
+}
+
+async function writeShuffleHistory(list: ShuffleEntry[]) {
+  await fsp.mkdir(userDataDir(), { recursive: true })
+  await fsp.writeFile(shuffleHistoryPath(), JSON.stringify(list.slice(-SHUFFLE_HISTORY_MAX), null, 2), 'utf-8')
+}
+
+function pickWeighted<T>(list: Array<{ value: T; weight: number }>): T | null {
+  const total = list.reduce((acc, x) => acc + x.weight, 0)
+  if (total <= 0) return null
+  let r = Math.random() * total
+  for (const x of list) {
+    r -= x.weight
+    if (r < 0) return x.value
+  }
+  return list[list.length - 1].value
+}
+
+ipcMain.handle('mods:randomize', async (_e, options: ShuffleOptions = {}) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const excluded = new Set((options.excludeTags || []).map((t) => t.trim().toLowerCase()).filter(Boolean))
+  const characters = options.character ? [options.character] : await listCharacterDirs(modsRoot)
+  const claimed = new Set<string>()
+  const steps: RenameStep[] = []
+  const plans: ExclusivePlan[] = []
+  const picked: ShuffleEntry['picked'] = []
+  for (const character of characters) {
+    const candidates = (await listDetailedMods(modsRoot, character))
+      .filter((item) => !(item.meta.tags || []).some((t) => excluded.has(t.toLowerCase())))
+      .map((item) => ({ value: item, weight: options.weightFavorites && item.meta.favorite ? FAVORITE_WEIGHT : 1 }))
+    const choice = pickWeighted(candidates)
+    if (!choice) continue
+    const target = toResolvedMod(modsRoot, character, choice.archive || choice.folder, choice.archive ? 'flat' : 'folder')
+    const plan = await planExclusiveActivation(modsRoot, target, claimed)
+    steps.push(...plan.steps)
+    plans.push(plan)
+    picked.push({ character, mod: target.name })
+  }
+  // A partial shuffle would leave those characters with several active mods: change nothing instead
+  const skipped = plans.flatMap((p) => p.skipped)
+  if (skipped.length) throw new Error(`Cannot disable ${skipped.join(', ')}: the DISABLED_ name already exists`)
+  await runRenameTransaction(renameJournalPath(), 'mods:randomize', steps)
+  for (const plan of plans) await writeExclusiveMeta(plan)
+  if (steps.length > 0) {
+    const history = await readShuffleHistory()
+    history.push({ at: new Date().toISOString(), character: options.character || null, picked, changes: plans.flatMap((p) => p.changes) })
+    await writeShuffleHistory(history)
+  }
+  try { win?.webContents.send('fs-changed', { root: modsRoot }) } catch { /* window already closed */ }
+  return { picked }
+})
+
+ipcMain.handle('mods:shuffleHistory', async () => {
+  const history = await readShuffleHistory()
+  return history.map((h) => ({ at: h.at, character: h.character, picked: h.picked })).reverse()
+})
+
+// Undo the most recent shuffle by renaming everything back, as long as nothing took the old names
+ipcMain.handle('mods:revertShuffle', async () => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const history = await readShuffleHistory()
+  const last = history.pop()
+  if (!last) return false
+  const steps: RenameStep[] = last.changes.slice().reverse().map((c) => ({ from: c.to, to: c.from }))
+  await runRenameTransaction(renameJournalPath(), 'mods:revertShuffle', steps)
+  for (const c of last.changes) {
+    if (!isDirectory(c.from)) continue
+    const entry = path.basename(c.from)
+    try { await writeModMeta(c.from, { name: entry.replace(DISABLED_RE, ''), enabled: !DISABLED_RE.test(entry) }) } catch { /* mod.json only caches what the folder name says */ }
+  }
+  await writeShuffleHistory(history)
+  try { win?.webContents.send('fs-changed', { root: modsRoot }) } catch { /* window already closed */ }
+  return true
+})
+
+// --------------------------- Profiles ---------------------------
+// Named snapshots of which mods are enabled for each character, stored in userData/profiles.json.
+// Applying a profile only renames the mods whose state differs, in one journaled transaction.
+// Characters created after the snapshot are left untouched.
+type Profile = {
+  name: string
+  createdAt: string
+  updatedAt: string
+  characters: Record<string, string[]> // character folder -> enabled mod names (without DISABLED_)
+}
+
+type ProfilesFile = {
+  active?: string
+  profiles: Profile[]
+}
+
+const profilesPath = () => path.join(userDataDir(), 'profiles.json')
+
+async function readProfiles(): Promise<ProfilesFile> {
+  try {
+    const j = JSON.parse(await fsp.readFile(profilesPath(), 'utf-8'))
+    if (j && Array.isArray(j.profiles)) return j
+  } catch { /* no profiles yet */ }
+  return { profiles: [] }
+}
+
+async function writeProfiles(data: ProfilesFile) {
+  await fsp.mkdir(userDataDir(), { recursive: true })
+  await fsp.writeFile(profilesPath(), JSON.stringify(data, null, 2), 'utf-8')
+}
+
+function findProfile(data: ProfilesFile, name: string) {
+  const key = name.trim().toLowerCase()
+  return data.profiles.find((p) => p.name.toLowerCase() === key)
+}
+
+async function snapshotEnabledMods(modsRoot: string): Promise<Record<string, string[]>> {
+  const result: Record<string, string[]> = {}
+  for (const character of await listCharacterDirs(modsRoot)) {
+    const items = await listModItems(modsRoot, character)
+    result[character] = items.filter((item) => item.meta.enabled).map((item) => item.folder.replace(DISABLED_RE, ''))
+  }
+  return result
+}
+
+ipcMain.handle('profiles:list', async () => {
+  const data = await readProfiles()
+  return {
+    active: data.active || null,
+    profiles: data.profiles.map((p) => ({
+      name: p.name,
+      createdAt: p.createdAt,
+      updatedAt: p.updatedAt,
+      enabledCount: Object.values(p.characters).reduce((acc, list) => acc + list.length, 0),
+    })),
+  }
+})
+
+// Save (or overwrite) a profile with the mods enabled right now
+ipcMain.handle('profiles:save', async (_e, name: string) => {
+  const { modsRoot } = await readSettings()
+  if (!modsRoot) throw new Error('Mods root not set')
+  const clean = String(name || '').trim()
+  if (!clean) throw new Error('Profile name is required')
+  const data = await readProfiles()
+  const now = new Date().toISOString()
+  const characters = await snapshotEnabledMods(modsRoot)
+  const existing = findProfile(data, clean)
+  if (existing) {
+    existing.characters = characters
+    existing.updatedAt = now
+  } else {
+    data.profiles.push({ name: clean, createdAt: now, updatedAt: now, characters })
+    data.profiles.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+  }
+  data.active = existing?.name || clean
+  await writeProfiles(data)
+  return true
+})
+
+ipcMain.handle('profiles:delete', async (_e, name: string) => {
+  const data = await readProfiles()
+  const profile = findProfile(data, String(name || ''))
+  if (!profile) return false
+  data.profiles = data.profiles.filter((p) => p !== profile)
+  if (data.active === profile.name) delete data.active
+  await writeProfiles(data)
+  return true
+})
+
+// Apply a profile. Returns what was renamed, the profile mods that no longer exist, the mods that
+// could not be toggled because the target name is taken and, for characters with the single-active
+// policy, the profile mods left disabled because another one of the character was enabled first.
+ipcMain.handle('profiles:apply', async (_e, name: string) => {
+  const settings = await readSettings()
+  const { modsRoot } = settings
+  if (!modsRoot) throw new Error('Mods root not set')
+  const data = await readProfiles()
+  const profile = findProfile(data, String(name || ''))
+  if (!profile) throw new Error(`Profile not found: ${name}`)
+  const steps: RenameStep[] = []
+  const claimed = new Set<string>()
+  const enabled: string[] = []
+  const disabled: string[] = []
+  const missing: string[] = []
+  const skipped: string[] = []
+  const limited: string[] = []
+  const metaUpdates: Array<{ dir: string; name: string; enabled: boolean }> = []
+  const characters = await listCharacterDirs(modsRoot)
+  for (const [character, wanted] of Object.entries(profile.characters)) {
+    const actual = characters.find((c) => c.toLowerCase() === character.toLowerCase())
+    if (!actual) {
+      for (const m of wanted) missing.push(`${character}/${m}`)
+      continue
+    }
+    const items = await listModItems(modsRoot, actual)
+    const mods = items.map((item) => toResolvedMod(modsRoot, actual, item.archive || item.folder, item.archive ? 'flat' : 'folder'))
+    const exists = (m: string) => mods.some((mod) => mod.name.toLowerCase() === m.toLowerCase())
+    let want = new Set(wanted.map((m) => m.toLowerCase()))
+    // Single-active characters keep the first profile mod that still exists
+    if (isSingleActive(settings, actual)) {
+      const first = wanted.find(exists)
+      for (const m of wanted) if (m !== first && exists(m)) limited.push(`${actual}/${m}`)
+      want = new Set(first ? [first.toLowerCase()] : [])
+    }
+    for (const mod of mods) {
+      const shouldEnable = want.has(mod.name.toLowerCase())
+      if (mod.enabled === shouldEnable) continue
+      const to = shouldEnable ? mod.enabledPath : freeDisabledPath(modsRoot, mod, claimed)
+      if (!to || fs.existsSync(to) || claimed.has(to.toLowerCase())) {
+        skipped.push(`${actual}/${mod.name}`)
+        continue
+      }
+      const key = to.toLowerCase()
+      claimed.add(key)
+      steps.push({ from: mod.path, to })
+      ;(shouldEnable ? enabled : disabled).push(`${actual}/${mod.name}`)
+      if (mod.kind === 'folder') metaUpdates.push({ dir: to, name: mod.name, enabled: shouldEnable })
+    }
+    for (const m of wanted) if (!exists(m)) missing.push(`${actual}/${m}`)
+  }
+  await runRenameTransaction(renameJournalPath(), `profiles:apply ${profile.name}`, steps)
+  for (const u of metaUpdates) {
+    try { await writeModMeta(u.dir, { name: u.name, enabled: u.enabled }) } catch { /* mod.json only caches what the folder name says */ }
+  }
+  data.active = profile.name
+  await writeProfiles(data)
+  try { win?.webContents.send('fs-changed', { root: modsRoot }) } catch { /* window already closed */ }
+  return { enabled, disabled, missing, skipped, limited }
+})
+
+// --------------------------- Recycle bin ---------------------------
+// Deleted mods/characters are moved to userData/trash/<id>/ with an item.json describing where each
+// stored entry came from. Items expire by age and the bin is trimmed (oldest first) above a size limit;
+// 0 disables either limit.
+const DEFAULT_TRASH_MAX_AGE_DAYS = 30
+const DEFAULT_TRASH_MAX_SIZE_MB = 2048
+const trashDir = () => path.join(userDataDir(), 'trash')
+
+type TrashEntry = {
+  original: string // absolute path before deletion
+  stored: string // name inside the item's payload folder
+}
+
+type TrashItem = {
+  id: string
+  kind: 'mod' | 'character'
+  character: string
+  name: string
+  deletedAt: string
+  size: number
+  entries: TrashEntry[]
+}
+
+// Rename when possible; copy + remove when crossing devices (userData and modsRoot are often on different drives)
+async function movePath(from: string, to: string) {
+  try {
+    await fsp.rename(from, to)
+  } catch (e) {
+    // Only a move across volumes falls back to copy + delete
+    if ((e as NodeJS.ErrnoException).code !== 'EXDEV') throw e
+    await fsp.cp(from, to, { recursive: true, errorOnExist: true, force: false })
+    await fsp.rm(from, { recursive: true, force: true })
+  }
+}
+
+async function pathSize(p: string): Promise<number> {
+  try {
+    const st = await fsp.stat(p)
+    if (!st.isDirectory()) return st.size
+    const ents = await fsp.readdir(p)
+    let total = 0
+    for (const n of ents) total += await pathSize(path.join(p, n))
+    return total
+  } catch {
+    return 0
+  }
+}
+
+async function moveToTrash(info: Pick<TrashItem, 'kind' | 'character' | 'name'>, paths: string[]): Promise<TrashItem | null> {
+  const existing = paths.filter((p) => fs.existsSync(p))
+  if (existing.length === 0) return null
+  const id = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+  const itemDir = path.join(trashDir(), id)
+  const payload = path.join(itemDir, 'payload')
+  await fsp.mkdir(payload, { recursive: true })
+  const item: TrashItem = { id, ...info, deletedAt: new Date().toISOString(), size: 0, entries: [] }
+  for (const [i, original] of existing.entries()) {
+    const stored = `${i}_${path.basename(original)}`
+    item.size += await pathSize(original)
+    await movePath(original, path.join(payload, stored))
+    item.entries.push({ original, stored })
+    // Keep item.json in sync after every move so a partial failure is still restorable
+    await fsp.writeFile(path.join(itemDir, 'item.json'), JSON.stringify(item, null, 2), 'utf-8')
+  }
+  await applyTrashRetention(id)
+  return item
+}
+
+async function readTrashItems(): Promise<TrashItem[]> {
+  let ids: string[] = []
+  try { ids = await fsp.readdir(trashDir()) } catch { return [] }
+  const items: TrashItem[] = []
+  for (const id of ids) {
+    try {
+      const j = JSON.parse(await fsp.readFile(path.join(trashDir(), id, 'item.json'), 'utf-8'))
+      if (j && j.id === id && Array.isArray(j.entries)) items.push(j)
+    } catch { /* unreadable item: not listed */ }
+  }
+  // Newest first
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+}
+
+async function purgeTrashItem(id: string) {
+  if (!/^[\w-]+$/.test(id)) throw new Error('Invalid trash item')
+  await fsp.rm(path.join(trashDir(), id), { recursive: true, force: true })
+}
+
+// Enforce the retention policy; `keepId` protects the item that was just added
+async function applyTrashRetention(keepId?: string) {
+  const s = await readSettings()
+  const maxAgeDays = s.trashMaxAgeDays ?? DEFAULT_TRASH_MAX_AGE_DAYS
+  const maxSize = (s.trashMaxSizeMB ?? DEFAULT_TRASH_MAX_SIZE_MB) * 1024 * 1024
+  const items = await readTrashItems()
+  const kept: TrashItem[] = []
+  for (const item of items) {
+    const age = Date.now() - new Date(item.deletedAt).getTime()
+    if (item.id !== keepId && maxAgeDays > 0 && age > maxAgeDays * 24 * 60 * 60 * 1000) {
+      try { await purgeTrashItem(item.id) } catch { /* retried on the next start */ }
+    } else {
+      kept.push(item)
+    }
+  }
+  if (maxSize <= 0) return
+  let total = kept.reduce((acc, it) => acc + (it.size || 0), 0)
+  // kept is newest first: drop from the end
+  for (let i = kept.length - 1; i >= 0 && total > maxSize; i--) {
+    if (kept[i].id === keepId) continue
+    try { await purgeTrashItem(kept[i].id); total -= kept[i].size || 0 } catch { /* retried on the next start */ }
+  }
+}
+
+app.whenReady().then(() => { if (gotSingleInstanceLock) applyTrashRetention().catch(() => {}) })
+
+ipcMain.handle('trash:list', async () => {
+  return readTrashItems()
+})
+
+ipcMain.handle('trash:restore', async (_e, id: string) => {
+  const item = (await readTrashItems()).find((it) => it.id === id)
+  if (!item) throw new Error('Trash item not found')
+  const payload = path.join(trashDir(), id, 'payload')
+  // Refuse before moving anything so a restore never overwrites a newer folder/archive
+  const blocked = item.entries.filter((e) => fs.existsSync(e.original))
+  if (blocked.length) throw new Error(`Already exists: ${blocked.map((e) => e.original).join(', ')}`)
+  for (const entry of item.entries) {
+    await fsp.mkdir(path.dirname(entry.original), { recursive: true })
+    await movePath(path.join(payload, entry.stored), entry.original)
+  }
+  await purgeTrashItem(id)
+  const { modsRoot } = await readSettings()
+  try { win?.webContents.send('fs-changed', { root: modsRoot }) } catch { /* window already closed */ }
+  return true
+})
+
+ipcMain.handle('trash:purge', async (_e, id: string) => {
+  await purgeTrashItem(id)
+  return true
+})
+
+// Purges what it can and reports the items that could not be removed
+ipcMain.handle('trash:empty', async () => {
+  const failed: string[] = []
+  for (const item of await readTrashItems()) {
+    try { await purgeTrashItem(item.id) } catch (e) { failed.push(`${item.name}: ${e instanceof Error ? e.message : String(e)}`) }
+  }
+  if (failed.length) throw new Error(`Could not purge ${failed.join('; ')}`)
+  return true
+})
+
 // --------------------------- FS Utilities ---------------------------
 // Delete a file if it resides under modsRoot or imagesRoot
 ipcMain.handle('fs:deleteFile', async (_e, absPath: string) => {
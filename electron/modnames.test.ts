@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { ModDirEntry, matchModEntry } from './modnames'
+
+const folder = (name: string): ModDirEntry => ({ name, folder: true })
+const file = (name: string): ModDirEntry => ({ name, folder: false })
+
+describe('matchModEntry', () => {
+  it('picks the exact name over longer names sharing its prefix', () => {
+    const entries = [folder('Ellen Maid'), folder('Ellen'), folder('Ellen_Swimsuit'), file('Ellen Maid v2.zip')]
+    expect(matchModEntry(entries, 'Ellen')).toEqual({ entry: 'Ellen', kind: 'folder' })
+    expect(matchModEntry(entries, 'Ellen Maid')).toEqual({ entry: 'Ellen Maid', kind: 'folder' })
+  })
+
+  it('does not match by prefix', () => {
+    expect(matchModEntry([folder('Ellen Maid'), file('Ellen Maid.zip')], 'Ellen')).toBeNull()
+  })
+
+  it('ignores case, the DISABLED_ prefix and the archive extension', () => {
+    expect(matchModEntry([folder('DISABLED_Ellen')], 'ellen')).toEqual({ entry: 'DISABLED_Ellen', kind: 'folder' })
+    expect(matchModEntry([file('DISABLED_Ellen.7z')], 'Ellen')).toEqual({ entry: 'DISABLED_Ellen.7z', kind: 'flat' })
+    expect(matchModEntry([file('Ellen.txt')], 'Ellen')).toBeNull()
+  })
+
+  it('prefers folders over flat archives', () => {
+    expect(matchModEntry([file('Ellen.zip'), folder('Ellen')], 'Ellen')).toEqual({ entry: 'Ellen', kind: 'folder' })
+  })
+
+  it('uses the exact folder name when enabled and disabled copies coexist', () => {
+    const entries = [folder('Ellen'), folder('DISABLED_Ellen')]
+    expect(matchModEntry(entries, 'DISABLED_Ellen')?.entry).toBe('DISABLED_Ellen')
+    expect(matchModEntry(entries, 'ellen')?.entry).toBe('Ellen')
+  })
+
+  it('throws when several entries match and none is exact', () => {
+    expect(() => matchModEntry([folder('DISABLED_Ellen'), folder('disabled_Ellen')], 'Ellen', 'Ellen')).toThrow('Ambiguous mod "Ellen" in Ellen')
+    expect(() => matchModEntry([file('Ellen.zip'), file('DISABLED_Ellen.rar')], 'Ellen')).toThrow('Ambiguous mod')
+  })
+
+  it('returns null for an empty name', () => {
+    expect(matchModEntry([folder('Ellen')], '  ')).toBeNull()
+  })
+})
@@ -0,0 +1,35 @@
+// --------------------------- Mod name matching ---------------------------
+// Maps the name the UI knows a mod by to the entry on disk inside a character directory: a folder
+// (legacy/extracted) or a flat archive, either one possibly DISABLED_.
+
+const ARCHIVE_EXT_RE = /\.(zip|7z|rar)$/i
+const DISABLED_PREFIX_RE = /^DISABLED_/i
+
+export type ModDirEntry = { name: string; folder: boolean }
+
+export type ModEntryMatch = { entry: string; kind: 'folder' | 'flat' }
+
+// Matching is exact and case-insensitive once the DISABLED_ prefix and archive extension are stripped,
+// so "Ellen" never picks "Ellen Maid". Folders win over flat archives like in mods:list. Returns null
+// when nothing matches and throws when several entries match, instead of guessing.
+export function matchModEntry(entries: ModDirEntry[], modName: string, character = ''): ModEntryMatch | null {
+  const wanted = (modName || '').trim()
+  if (!wanted) return null
+  const key = wanted.replace(DISABLED_PREFIX_RE, '').toLowerCase()
+  const ambiguous = (names: string[]) => new Error(`Ambiguous mod "${modName}" in ${character}: ${names.join(', ')}`)
+
+  const folders = entries.filter((e) => e.folder && e.name.replace(DISABLED_PREFIX_RE, '').toLowerCase() === key)
+  if (folders.length === 1) return { entry: folders[0].name, kind: 'folder' }
+  if (folders.length > 1) {
+    // "Foo" and "DISABLED_Foo" can coexist; the exact folder name picks one of them
+    const exact = folders.find((e) => e.name === wanted) || folders.find((e) => e.name.toLowerCase() === wanted.toLowerCase())
+    if (exact) return { entry: exact.name, kind: 'folder' }
+    throw ambiguous(folders.map((e) => e.name))
+  }
+
+  const archives = entries.filter((e) => !e.folder && ARCHIVE_EXT_RE.test(e.name)
+    && e.name.replace(DISABLED_PREFIX_RE, '').replace(ARCHIVE_EXT_RE, '').toLowerCase() === key)
+  if (archives.length === 1) return { entry: archives[0].name, kind: 'flat' }
+  if (archives.length > 1) throw ambiguous(archives.map((e) => e.name))
+  return null
+}
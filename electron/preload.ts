@@ -1,12 +1,20 @@
-import { ipcRenderer, contextBridge } from 'electron'
+import { ipcRenderer, contextBridge, webUtils, type IpcRendererEvent } from 'electron'
+import type { DownloadItem } from './downloads'
+import type { InstallLink } from './links'
+import type { RemoteFile } from './updates'
 
 // --------- Expose a safe API to the Renderer process ---------
 contextBridge.exposeInMainWorld('api', {
   getSettings: () => ipcRenderer.invoke('settings:get'),
   setModsRoot: (root: string) => ipcRenderer.invoke('settings:setModsRoot', root),
   setImagesRoot: (root: string) => ipcRenderer.invoke('settings:setImagesRoot', root),
+  setSingleActive: (character: string, enabled: boolean) => ipcRenderer.invoke('settings:setSingleActive', character, enabled),
+  setTrashPolicy: (policy: { maxAgeDays?: number; maxSizeMB?: number }) => ipcRenderer.invoke('settings:setTrashPolicy', policy),
   selectFolder: () => ipcRenderer.invoke('dialog:selectFolder'),
   selectArchive: () => ipcRenderer.invoke('dialog:selectArchive'),
+  selectArchives: () => ipcRenderer.invoke('dialog:selectArchives'),
+  // Absolute path of a File from a drag-and-drop event
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
 
   listCharacters: () => ipcRenderer.invoke('characters:list'),
   listCharactersWithImages: () => ipcRenderer.invoke('characters:listWithImages'),
@@ -16,9 +24,14 @@ contextBridge.exposeInMainWorld('api', {
   deleteCharacter: (name: string) => ipcRenderer.invoke('characters:delete', name),
 
   listMods: (character: string) => ipcRenderer.invoke('mods:list', character),
+  listModsDetailed: (character: string) => ipcRenderer.invoke('mods:listDetailed', character),
+  listAllMods: () => ipcRenderer.invoke('library:listAll'),
+  getModConflicts: (character: string) => ipcRenderer.invoke('mods:getConflicts', character),
+  getConflictReport: () => ipcRenderer.invoke('mods:getConflictReport'),
   addModFromArchive: (character: string, archivePath: string, modName: string, meta?: any) => ipcRenderer.invoke('mods:addFromArchive', character, archivePath, modName, meta),
-  copyArchiveToModFolder: (character: string, archivePath: string) => ipcRenderer.invoke('mods:copyArchiveToModFolder', character, archivePath),
-  createModFromArchive: (character: string, archivePath: string) => ipcRenderer.invoke('mods:copyArchiveToModFolder', character, archivePath),
+  copyArchiveToModFolder: (character: string, archivePath: string, opts?: { password?: string; unpackNested?: boolean; variants?: string[]; activeVariant?: string }) => ipcRenderer.invoke('mods:copyArchiveToModFolder', character, archivePath, opts),
+  createModFromArchive: (character: string, archivePath: string, opts?: { password?: string; unpackNested?: boolean; variants?: string[]; activeVariant?: string }) => ipcRenderer.invoke('mods:copyArchiveToModFolder', character, archivePath, opts),
+  inspectArchive: (archivePath: string, password?: string) => ipcRenderer.invoke('mods:inspectArchive', archivePath, password),
   saveModMetadata: (character: string, modName: string, meta: any) => ipcRenderer.invoke('mods:saveMetadata', character, modName, meta),
   saveModImageFromDataUrl: (character: string, modName: string, dataUrl: string) => ipcRenderer.invoke('mods:saveImageFromDataUrl', character, modName, dataUrl),
   saveModImageFromUrl: (character: string, modName: string, url: string) => ipcRenderer.invoke('mods:saveImageFromUrl', character, modName, url),
@@ -27,7 +40,22 @@ contextBridge.exposeInMainWorld('api', {
   setModData: (character: string, modName: string, payload: { pageUrl?: string; imageUrl?: string }) => ipcRenderer.invoke('mods:setData', character, modName, payload),
   getPrimaryInternalName: (character: string, modName: string) => ipcRenderer.invoke('mods:getPrimaryInternalName', character, modName),
   renamePrimaryInternal: (character: string, modName: string, newName: string) => ipcRenderer.invoke('mods:renamePrimaryInternal', character, modName, newName),
+  listModFiles: (character: string, modName: string) => ipcRenderer.invoke('mods:listFiles', character, modName),
+  openModFile: (character: string, modName: string, file: string) => ipcRenderer.invoke('mods:openFile', character, modName, file),
+  renameModFile: (character: string, modName: string, file: string, newName: string) => ipcRenderer.invoke('mods:renameFile', character, modName, file, newName),
+  deleteModFile: (character: string, modName: string, file: string) => ipcRenderer.invoke('mods:deleteFile', character, modName, file),
+  getModVariants: (character: string, modName: string) => ipcRenderer.invoke('mods:getVariants', character, modName),
+  setModVariant: (character: string, modName: string, variant: string) => ipcRenderer.invoke('mods:setVariant', character, modName, variant),
+  setModTags: (character: string, modName: string, patch: { tags?: string[]; favorite?: boolean }) => ipcRenderer.invoke('mods:setTags', character, modName, patch),
+  listTags: () => ipcRenderer.invoke('tags:list'),
+  renameTag: (from: string, to: string) => ipcRenderer.invoke('tags:rename', from, to),
+  deleteTag: (tag: string) => ipcRenderer.invoke('tags:delete', tag),
+  getModIniSummary: (character: string, modName: string) => ipcRenderer.invoke('mods:getIniSummary', character, modName),
+  getKeyBindings: (character: string) => ipcRenderer.invoke('mods:getKeyBindings', character),
+  rebindKey: (character: string, modName: string, file: string, line: number, newKey: string) => ipcRenderer.invoke('mods:rebindKey', character, modName, file, line, newKey),
   peekPrimaryInternalName: (archivePath: string) => ipcRenderer.invoke('mods:peekPrimaryInternalName', archivePath),
+  inspectDropped: (paths: string[]) => ipcRenderer.invoke('mods:inspectDropped', paths),
+  installModFromFolder: (character: string, folderPath: string) => ipcRenderer.invoke('mods:installFromFolder', character, folderPath),
   deleteMod: (character: string, modName: string) => ipcRenderer.invoke('mods:delete', character, modName),
   openModPage: (character: string, modName: string) => ipcRenderer.invoke('mods:openPage', character, modName),
   openFolder: (character?: string, modName?: string) => ipcRenderer.invoke('mods:openFolder', character, modName),
@@ -36,11 +64,40 @@ contextBridge.exposeInMainWorld('api', {
   enableMod: (character: string, modName: string) => ipcRenderer.invoke('mods:enable', character, modName),
   disableMod: (character: string, modName: string) => ipcRenderer.invoke('mods:disable', character, modName),
   readImageAsDataUrl: (absPath: string) => ipcRenderer.invoke('images:readDataUrl', absPath),
+  // URL served by the modimg:// protocol; pass a width for a cached thumbnail, omit it for the original file
+  modImageUrl: (absPath: string, width?: number) => `modimg://image/?path=${encodeURIComponent(absPath)}${width ? `&w=${Math.round(width)}` : ''}`,
   saveImageFromUrl: (character: string, url: string, crop?: any) => ipcRenderer.invoke('images:saveFromUrl', character, url, crop),
   fetchImageDataUrl: (url: string) => ipcRenderer.invoke('images:fetchAsDataUrl', url),
   saveImageFromDataUrl: (character: string, dataUrl: string, sourceUrl?: string, crop?: any) => ipcRenderer.invoke('images:saveFromDataUrl', character, dataUrl, sourceUrl, crop),
   getCharacterInfo: (character: string) => ipcRenderer.invoke('database:getCharacterInfo', character),
   deleteFile: (absPath: string) => ipcRenderer.invoke('fs:deleteFile', absPath),
+  fetchGameBananaMod: (pageUrl: string) => ipcRenderer.invoke('gamebanana:fetchMod', pageUrl),
+  saveModInfo: (character: string, modName: string, info: { title?: string; author?: string; description?: string; version?: string; files?: RemoteFile[] }) => ipcRenderer.invoke('mods:saveInfo', character, modName, info),
+  detectCharacter: (archivePath: string) => ipcRenderer.invoke('mods:detectCharacter', archivePath),
+  getHashDbInfo: () => ipcRenderer.invoke('hashdb:info'),
+  importHashDb: () => ipcRenderer.invoke('hashdb:import'),
+  learnHashesFromLibrary: () => ipcRenderer.invoke('hashdb:learnFromLibrary'),
+  scanImportFolder: (sourceDir: string) => ipcRenderer.invoke('import:scan', sourceDir),
+  applyImport: (sourceDir: string, assignments: Array<{ path: string; character: string }>, mode: 'move' | 'copy') => ipcRenderer.invoke('import:apply', sourceDir, assignments, mode),
+  addDownload: (req: { url: string; character: string; pageUrl?: string; autoInstall?: boolean }) => ipcRenderer.invoke('downloads:add', req),
+  listDownloads: () => ipcRenderer.invoke('downloads:list'),
+  cancelDownload: (id: string) => ipcRenderer.invoke('downloads:cancel', id),
+  retryDownload: (id: string) => ipcRenderer.invoke('downloads:retry', id),
+  removeDownload: (id: string) => ipcRenderer.invoke('downloads:remove', id),
+  checkModUpdate: (character: string, modName: string) => ipcRenderer.invoke('updates:check', character, modName),
+  checkAllUpdates: () => ipcRenderer.invoke('updates:checkAll'),
+  getUpdateStatus: (character: string) => ipcRenderer.invoke('updates:getStatus', character),
+  randomizeMods: (options: { character?: string; weightFavorites?: boolean; excludeTags?: string[] }) => ipcRenderer.invoke('mods:randomize', options),
+  getShuffleHistory: () => ipcRenderer.invoke('mods:shuffleHistory'),
+  revertShuffle: () => ipcRenderer.invoke('mods:revertShuffle'),
+  listProfiles: () => ipcRenderer.invoke('profiles:list'),
+  saveProfile: (name: string) => ipcRenderer.invoke('profiles:save', name),
+  deleteProfile: (name: string) => ipcRenderer.invoke('profiles:delete', name),
+  applyProfile: (name: string) => ipcRenderer.invoke('profiles:apply', name),
+  listTrash: () => ipcRenderer.invoke('trash:list'),
+  restoreTrashItem: (id: string) => ipcRenderer.invoke('trash:restore', id),
+  purgeTrashItem: (id: string) => ipcRenderer.invoke('trash:purge', id),
+  emptyTrash: () => ipcRenderer.invoke('trash:empty'),
   // Notify main that the renderer finished initial loading
   notifyReady: () => ipcRenderer.send('renderer:ready'),
   onFsChanged: (cb: (payload: any) => void) => {
@@ -48,4 +105,14 @@ contextBridge.exposeInMainWorld('api', {
     ipcRenderer.on('fs-changed', handler)
     return () => ipcRenderer.off('fs-changed', handler)
   },
+  onInstallLink: (cb: (link: InstallLink) => void) => {
+    const handler = (_e: IpcRendererEvent, link: InstallLink) => cb(link)
+    ipcRenderer.on('install-link', handler)
+    return () => ipcRenderer.off('install-link', handler)
+  },
+  onDownloadsChanged: (cb: (items: DownloadItem[]) => void) => {
+    const handler = (_e: IpcRendererEvent, items: DownloadItem[]) => cb(items)
+    ipcRenderer.on('downloads-changed', handler)
+    return () => ipcRenderer.off('downloads-changed', handler)
+  },
 })
@@ -0,0 +1,88 @@
+import type { IniSummary } from './ini'
+
+// --------------------------- Character detection ---------------------------
+// Guesses which character a mod belongs to. INI hashes vote for the characters whose mods already
+// override them; when they do not decide, character names found in the folder name or in the INI
+// section names are used instead.
+
+// hash (lowercase) -> characters whose mods override it
+export type HashIndex = Map<string, Set<string>>
+
+export type CharacterSuggestion = {
+  character: string | null
+  reason: 'hash' | 'name' | null
+  score: number // hash votes, or length of the matched name
+  candidates: Array<{ character: string; votes: number }> // hash votes, best first
+}
+
+const MIN_KEYWORD_LENGTH = 3
+
+export function normalizeKeyword(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+export function addToHashIndex(index: HashIndex, character: string, hashes: Iterable<string>) {
+  for (const h of hashes) {
+    const key = h.toLowerCase()
+    let set = index.get(key)
+    if (!set) index.set(key, (set = new Set()))
+    set.add(character)
+  }
+}
+
+export function buildHashIndex(list: Array<{ character: string; summary: IniSummary }>): HashIndex {
+  const index: HashIndex = new Map()
+  for (const { character, summary } of list) addToHashIndex(index, character, summary.hashes.map((h) => h.hash))
+  return index
+}
+
+// A hash used by several characters (shared UI textures, body bases...) counts less for each of them
+export function voteByHashes(summary: IniSummary, index: HashIndex): Array<{ character: string; votes: number }> {
+  const votes = new Map<string, number>()
+  const seen = new Set<string>()
+  for (const h of summary.hashes) {
+    const key = h.hash.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    const owners = index.get(key)
+    if (!owners) continue
+    for (const c of owners) votes.set(c, (votes.get(c) || 0) + 1 / owners.size)
+  }
+  return Array.from(votes, ([character, v]) => ({ character, votes: Math.round(v * 100) / 100 }))
+    .sort((a, b) => b.votes - a.votes || a.character.localeCompare(b.character))
+}
+
+// Longest character name (or alias) contained in any of the texts ("EllenBunnySuit" -> "Ellen", "zhu_yuan_v2" -> "Zhu Yuan")
+export function matchCharacterByName(texts: string[], characters: string[], aliases?: Map<string, string[]>): string | null {
+  const haystack = texts.map(normalizeKeyword).filter(Boolean)
+  let best: string | null = null
+  let bestLength = 0
+  for (const c of characters) {
+    for (const keyword of [c, ...(aliases?.get(c) || [])]) {
+      const key = normalizeKeyword(keyword)
+      if (key.length < MIN_KEYWORD_LENGTH || key.length <= bestLength) continue
+      if (haystack.some((t) => t.includes(key))) { best = c; bestLength = key.length }
+    }
+  }
+  return best
+}
+
+export function suggestCharacter(
+  name: string,
+  summary: IniSummary | null,
+  characters: string[],
+  index: HashIndex,
+  aliases?: Map<string, string[]>,
+): CharacterSuggestion {
+  const candidates = summary ? voteByHashes(summary, index) : []
+  const [first, second] = candidates
+  if (first && (!second || first.votes > second.votes)) {
+    return { character: first.character, reason: 'hash', score: first.votes, candidates }
+  }
+  const texts = [name, ...(summary?.hashes.map((h) => h.section) || []), ...(summary?.namespaces || [])]
+  // On a hash tie, the name decides between the tied characters only
+  const pool = first ? candidates.filter((c) => c.votes === first.votes).map((c) => c.character) : characters
+  const byName = matchCharacterByName(texts, pool, aliases)
+  if (byName) return { character: byName, reason: 'name', score: normalizeKeyword(byName).length, candidates }
+  return { character: null, reason: null, score: 0, candidates }
+}
@@ -0,0 +1,37 @@
+// --------------------------- Mod tags ---------------------------
+// User-defined tags ("outfit", "recolor", "NSFW"...). Tags compare case-insensitively; the first
+// spelling seen is kept. Renaming a tag onto an existing one merges both.
+
+export const MAX_TAG_LENGTH = 40
+
+export function normalizeTags(list: unknown): string[] {
+  if (!Array.isArray(list)) return []
+  const out: string[] = []
+  for (const raw of list) {
+    const tag = String(raw ?? '').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH)
+    if (tag && !out.some((t) => t.toLowerCase() === tag.toLowerCase())) out.push(tag)
+  }
+  return out
+}
+
+export function hasTag(tags: string[], tag: string) {
+  return tags.some((t) => t.toLowerCase() === tag.toLowerCase())
+}
+
+// `to` empty removes the tag
+export function replaceTag(tags: string[], from: string, to: string): string[] {
+  return normalizeTags(tags.flatMap((t) => (t.toLowerCase() === from.toLowerCase() ? (to.trim() ? [to] : []) : [t])))
+}
+
+export function countTags(lists: string[][]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, { tag: string; count: number }>()
+  for (const tags of lists) {
+    for (const tag of normalizeTags(tags)) {
+      const key = tag.toLowerCase()
+      const cur = counts.get(key)
+      if (cur) cur.count++
+      else counts.set(key, { tag, count: 1 })
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => a.tag.localeCompare(b.tag))
+}
@@ -0,0 +1,115 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { createHttpClient } from './http'
+import { RemoteFile, checkForUpdate, compareVersions, evaluateUpdate, gameBananaSource } from './updates'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const file = (name: string, date: number): RemoteFile => ({ id: 1, name, size: 10, date, downloadUrl: `https://example.com/${name}` })
+
+describe('compareVersions', () => {
+  it('compares numerically and ignores a leading v', () => {
+    expect(compareVersions('1.2.10', 'v1.2.9')).toBeGreaterThan(0)
+    expect(compareVersions('v2.0', '2.0.0')).toBe(0)
+    expect(compareVersions('1.0', '1.0.1')).toBeLessThan(0)
+  })
+
+  it('falls back to text for non-numeric parts', () => {
+    expect(compareVersions('1.0-beta', '1.0-alpha')).toBeGreaterThan(0)
+  })
+})
+
+describe('evaluateUpdate', () => {
+  const now = Date.parse('2024-05-01T00:00:00Z')
+
+  it('prefers versions when both sides have one', () => {
+    const listing = { version: '1.3', files: [file('mod.zip', now)] }
+    expect(evaluateUpdate({ version: '1.2' }, listing).status).toBe('update')
+    expect(evaluateUpdate(null, listing, '1.3').status).toBe('current')
+  })
+
+  it('compares against the installed file when it is still listed', () => {
+    const listing = { files: [file('mod_v1.zip', now - DAY), file('mod_v2.zip', now)] }
+    expect(evaluateUpdate({ fileName: 'MOD_V1.zip' }, listing).status).toBe('update')
+    expect(evaluateUpdate({ fileName: 'mod_v2.zip' }, listing).status).toBe('current')
+  })
+
+  it('falls back to the install date', () => {
+    const listing = { files: [file('mod.zip', now)] }
+    expect(evaluateUpdate({ installedAt: new Date(now - DAY).toISOString() }, listing).status).toBe('update')
+    expect(evaluateUpdate({ fileDate: new Date(now + DAY).toISOString() }, listing).status).toBe('current')
+  })
+
+  it('is unknown without files or without an install record', () => {
+    expect(evaluateUpdate({ version: '1.0' }, { files: [] }).status).toBe('unknown')
+    expect(evaluateUpdate(null, { files: [file('mod.zip', now)] }).status).toBe('unknown')
+  })
+})
+
+// checkForUpdate against a local stand-in for the GameBanana API
+describe('checkForUpdate with GameBanana', () => {
+  const pages: Record<string, unknown> = {
+    '/Mod/1/ProfilePage': { _idRow: 1, _sVersion: '2.0', _aFiles: [{ _idRow: 10, _sFile: 'mod_v2.zip', _tsDateAdded: 1714521600 }] },
+    '/Mod/2/ProfilePage': { _idRow: 2, _aFiles: [] },
+  }
+  let server: http.Server
+  let apiBase = ''
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/Mod/4/ProfilePage') return // never answers
+      const page = pages[req.url || '']
+      if (req.url === '/Mod/3/ProfilePage' || !page) {
+        res.writeHead(req.url === '/Mod/3/ProfilePage' ? 500 : 404)
+        res.end()
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(page))
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  const check = (id: number, installed: Parameters<typeof checkForUpdate>[1], timeoutMs = 2000) =>
+    checkForUpdate(`https://gamebanana.com/mods/${id}`, installed, createHttpClient(timeoutMs), [gameBananaSource(apiBase)])
+
+  it('reports an update when the page has a newer version', async () => {
+    const res = await check(1, { version: '1.0' })
+    expect(res.status).toBe('update')
+    expect(res.source).toBe('gamebanana')
+    expect(res.remoteVersion).toBe('2.0')
+    expect(res.latest?.name).toBe('mod_v2.zip')
+  })
+
+  it('reports current when the installed version matches', async () => {
+    expect((await check(1, { version: 'v2.0' })).status).toBe('current')
+  })
+
+  it('reports unknown when the page lists no files', async () => {
+    expect((await check(2, { version: '1.0' })).status).toBe('unknown')
+  })
+
+  it('reports HTTP errors', async () => {
+    const res = await check(3, { version: '1.0' })
+    expect(res.status).toBe('error')
+    expect(res.message).toMatch(/HTTP 500/)
+  })
+
+  it('reports a timeout when the server does not answer', async () => {
+    const res = await check(4, { version: '1.0' }, 100)
+    expect(res.status).toBe('error')
+    expect(res.message).toMatch(/Timeout/)
+  })
+
+  it('does not query anything for pages of other sites', async () => {
+    const res = await checkForUpdate('https://example.com/mods/1', null, createHttpClient(), [gameBananaSource(apiBase)])
+    expect(res.status).toBe('unsupported')
+  })
+})
@@ -0,0 +1,112 @@
+import type { HttpClient } from './http'
+import { GAMEBANANA_API_BASE, fetchGameBananaMod, parseGameBananaUrl } from './gamebanana'
+
+// --------------------------- Update checker ---------------------------
+// Compares what was installed (file name/date/version recorded in data.txt at install time) with
+// the file listing of the mod page. Each supported site is an UpdateSource; GameBanana is the only one so far.
+
+export type RemoteFile = {
+  id: number
+  name: string
+  size: number
+  date: number // ms since epoch, 0 when unknown
+  downloadUrl: string
+  version?: string
+  description?: string
+}
+
+// Stored as `install` inside the mod's data.txt
+export type InstallRecord = {
+  fileName?: string
+  fileSize?: number
+  fileDate?: string // ISO date of the installed archive
+  installedAt?: string
+  version?: string
+}
+
+export type UpdateStatus = 'update' | 'current' | 'unknown' | 'unsupported' | 'error'
+
+export type UpdateCheckResult = {
+  status: UpdateStatus
+  source?: string
+  latest?: RemoteFile
+  remoteVersion?: string
+  installedVersion?: string
+  message?: string
+  checkedAt: string
+}
+
+export type RemoteListing = {
+  version?: string
+  files: RemoteFile[]
+}
+
+export type UpdateSource = {
+  id: string
+  matches(pageUrl: string): boolean
+  fetchListing(http: HttpClient, pageUrl: string): Promise<RemoteListing>
+}
+
+export function gameBananaSource(apiBase = GAMEBANANA_API_BASE): UpdateSource {
+  return {
+    id: 'gamebanana',
+    matches: (pageUrl) => !!parseGameBananaUrl(pageUrl),
+    async fetchListing(http, pageUrl) {
+      const ref = parseGameBananaUrl(pageUrl)
+      if (!ref) throw new Error(`Not a GameBanana mod URL: ${pageUrl}`)
+      const mod = await fetchGameBananaMod(http, ref.id, apiBase)
+      return { version: mod.version, files: mod.files }
+    },
+  }
+}
+
+// Numeric-aware comparison of "1.2.10" vs "v1.2.9"; returns >0 when a is newer
+export function compareVersions(a: string, b: string) {
+  const pa = a.replace(/^v/i, '').split(/[.\-_ ]+/)
+  const pb = b.replace(/^v/i, '').split(/[.\-_ ]+/)
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const x = pa[i] ?? '0'
+    const y = pb[i] ?? '0'
+    const nx = Number(x)
+    const ny = Number(y)
+    const c = Number.isFinite(nx) && Number.isFinite(ny) ? nx - ny : x.localeCompare(y)
+    if (c !== 0) return c
+  }
+  return 0
+}
+
+export function evaluateUpdate(installed: InstallRecord | null, listing: RemoteListing, installedVersion?: string): Omit<UpdateCheckResult, 'checkedAt' | 'source'> {
+  const latest = listing.files.reduce<RemoteFile | undefined>((best, f) => (!best || f.date > best.date ? f : best), undefined)
+  const version = installed?.version || installedVersion
+  const base = { latest, remoteVersion: listing.version, installedVersion: version }
+  if (!latest) return { ...base, status: 'unknown', message: 'No files listed' }
+  // A version on both sides is the most reliable signal
+  if (listing.version && version) {
+    return { ...base, status: compareVersions(listing.version, version) > 0 ? 'update' : 'current' }
+  }
+  if (installed?.fileName) {
+    const mine = listing.files.find((f) => f.name.toLowerCase() === installed.fileName!.toLowerCase())
+    if (mine) return { ...base, status: latest.date > mine.date ? 'update' : 'current' }
+  }
+  const installedDate = Date.parse(installed?.fileDate || installed?.installedAt || '')
+  if (!Number.isFinite(installedDate)) return { ...base, status: 'unknown', message: 'No install record' }
+  return { ...base, status: latest.date > installedDate ? 'update' : 'current' }
+}
+
+export async function checkForUpdate(
+  pageUrl: string | undefined,
+  installed: InstallRecord | null,
+  http: HttpClient,
+  sources: UpdateSource[],
+  installedVersion?: string,
+): Promise<UpdateCheckResult> {
+  const checkedAt = new Date().toISOString()
+  const source = pageUrl ? sources.find((s) => s.matches(pageUrl)) : undefined
+  if (!pageUrl || !source) return { status: 'unsupported', checkedAt }
+  try {
+    const listing = await source.fetchListing(http, pageUrl)
+    return { ...evaluateUpdate(installed, listing, installedVersion), source: source.id, checkedAt }
+  } catch (e) {
+    return { status: 'error', source: source.id, message: e instanceof Error ? e.message : String(e), checkedAt }
+  }
+}
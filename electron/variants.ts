@@ -0,0 +1,33 @@
+import { isActiveIniFile } from './ini'
+
+// --------------------------- Mod variants ---------------------------
+// Packs shipping alternative versions of a mod ("Outfit A", "Outfit B", "NSFW off") as sibling
+// top-level folders, each with its own .ini. Only one of them is loaded at a time: the others keep
+// the DISABLED_ prefix, which 3DMigoto skips.
+
+const DISABLED_PREFIX_RE = /^DISABLED_/i
+
+export const variantName = (folder: string) => folder.replace(DISABLED_PREFIX_RE, '')
+
+// Variant names (without DISABLED_) in the order they appear. A single wrapper folder around
+// everything is looked through, like the install does when flattening. An active .ini at the root
+// means the folders belong to one mod (a merged toggle mod switches them itself): no variants then.
+export function findVariants(entries: Array<{ path: string; folder: boolean }>): string[] {
+  let list = entries
+    .map((e) => ({ parts: e.path.split(/[\\/]/).filter((p) => p && p !== '.'), folder: e.folder }))
+    .filter((e) => e.parts.length > 0)
+  const tops = new Set(list.map((e) => e.parts[0]))
+  if (tops.size === 1 && !list.some((e) => e.parts.length === 1 && !e.folder)) {
+    list = list.map((e) => ({ parts: e.parts.slice(1), folder: e.folder })).filter((e) => e.parts.length > 0)
+  }
+  if (list.some((e) => e.parts.length === 1 && !e.folder && isActiveIniFile(e.parts[0]))) return []
+  const variants: string[] = []
+  for (const e of list) {
+    if (e.folder || e.parts.length < 2) continue
+    // The variant folder itself may be disabled; what is inside it must be loadable
+    if (!isActiveIniFile(e.parts.slice(1).join('/'))) continue
+    const name = variantName(e.parts[0])
+    if (!variants.some((v) => v.toLowerCase() === name.toLowerCase())) variants.push(name)
+  }
+  return variants.length >= 2 ? variants : []
+}
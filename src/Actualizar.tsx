@@ -3,12 +3,14 @@ import { useEffect, useRef, useState } from 'react'
 type Props = {
   // Notify parent to refresh its data (characters/mods) after an action
   onAfterAction: () => Promise<void> | void
+  onOpenConflictReport: () => void
+  onOpenImport: () => void
   onClose: () => void
 }
 
-export default function Actualizar({ onAfterAction, onClose }: Props) {
+export default function Actualizar({ onAfterAction, onOpenConflictReport, onOpenImport, onClose }: Props) {
   const ref = useRef<HTMLDivElement | null>(null)
-  const [loading] = useState(false)
+  const [loading, setLoading] = useState(false)
 
   // Close on click outside
   useEffect(() => {
@@ -40,11 +42,41 @@ export default function Actualizar({ onAfterAction, onClose }: Props) {
     }
   }
 
+  async function handleCheckUpdates() {
+    setLoading(true)
+    try {
+      const res = await window.api.checkAllUpdates()
+      await onAfterAction()
+      const lines = [`Mods revisados: ${res.checked}. Con actualización: ${res.updates.length}.`]
+      if (res.updates.length) lines.push('', ...res.updates.map((u) => `${u.character} / ${u.mod}${u.latest ? ` → ${u.latest}` : ''}`))
+      if (res.errors.length) lines.push('', 'Errores:', ...res.errors.map((e) => `${e.character} / ${e.mod}: ${e.message || ''}`))
+      alert(lines.join('\n'))
+    } catch (e) {
+      alert('No se pudo buscar actualizaciones: ' + (e instanceof Error ? e.message : e))
+    } finally {
+      setLoading(false)
+      onClose()
+    }
+  }
+
+  function handleConflictReport() {
+    onOpenConflictReport()
+    onClose()
+  }
+
+  function handleImport() {
+    onOpenImport()
+    onClose()
+  }
+
   return (
     <div className="update-wrapper">
       <div ref={ref} className="update-panel">
         <button disabled={loading} onClick={handleRefreshFolders}>Actualizar Carpetas</button>
         <button disabled={loading} onClick={handleNormalizeNames}>Actualizar Nombres</button>
+        <button disabled={loading} onClick={handleCheckUpdates}>{loading ? 'Buscando…' : 'Buscar actualizaciones'}</button>
+        <button disabled={loading} onClick={handleConflictReport}>Reporte de conflictos</button>
+        <button disabled={loading} onClick={handleImport}>Importar carpeta de mods…</button>
       </div>
     </div>
   )
@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from 'react'
+
+// "Agregar desde URL": queues the archive download for the selected character. The download panel
+// shows the progress and the mod is installed when the file arrives.
+
+type Props = {
+  character: string
+  onClose: () => void
+  onQueued?: () => void
+}
+
+export default function AgregarDesdeUrl({ character, onClose, onQueued }: Props) {
+  const modalRef = useRef<HTMLDivElement | null>(null)
+  const [url, setUrl] = useState('')
+  const [pageUrl, setPageUrl] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      const el = e.target as HTMLElement
+      if (!modalRef.current) return
+      if (!modalRef.current.contains(el)) onClose()
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape') onClose() }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [onClose])
+
+  const validUrl = /^https?:\/\/\S+$/i.test(url.trim())
+
+  async function handleAdd() {
+    if (!validUrl) return
+    setBusy(true)
+    try {
+      await window.api.addDownload({ url: url.trim(), character, pageUrl: pageUrl.trim() || undefined })
+      onQueued?.()
+      onClose()
+    } catch (e) {
+      alert('No se pudo agregar la descarga: ' + (e instanceof Error ? e.message : e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="overlay">
+      <div ref={modalRef} className="modal">
+        <div className="modal-header">
+          <div className="modal-title">Agregar desde URL · {character}</div>
+          <button className="icon" onClick={onClose}>×</button>
+        </div>
+        <div className="modal-body">
+          <div className="field-row">
+            <div className="label">URL del archivo</div>
+            <input
+              autoFocus
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAdd() }}
+              placeholder="https://gamebanana.com/dl/123456"
+            />
+          </div>
+          <div className="field-row">
+            <div className="label">Página del mod (opcional)</div>
+            <input value={pageUrl} onChange={(e) => setPageUrl(e.target.value)} placeholder="https://gamebanana.com/mods/123456" />
+          </div>
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            <button onClick={onClose}>Cancelar</button>
+            <button disabled={busy || !validUrl} onClick={handleAdd}>⬇ Descargar e instalar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,6 @@
 import { useEffect, useRef, useState } from 'react'
+import ImportarGameBanana, { ModInfo } from './ImportarGameBanana'
+import ArbolArchivo, { ArchiveCheck } from './ArbolArchivo'
 
 // Modal to finalize adding a mod after copying the archive
 // - Shows read-only archive file name (zip/7z/rar)
@@ -10,21 +12,41 @@ type Props = {
   character: string
   archivePath: string // full selected path to the archive to copy on confirm
   archiveFileName: string // original archive filename with extension
+  initialPageUrl?: string // prefilled by syleaf-mm:// install links
+  characters?: string[] // to move the mod to another character (suggested by its name or INI hashes)
   onClose: () => void
-  onSaved?: () => void | Promise<void>
+  onSaved?: (character: string) => void | Promise<void>
 }
 
-export default function AgregarMod({ character, archivePath, archiveFileName, onClose, onSaved }: Props) {
+type Suggestion = { character: string | null; reason: 'hash' | 'name' | null; score: number }
+
+const sameCharacter = (a: string, b: string) => a.toLowerCase().replace(/[^a-z0-9]/g, '') === b.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+export default function AgregarMod({ character, archivePath, archiveFileName, initialPageUrl, characters = [], onClose, onSaved }: Props) {
   const modalRef = useRef<HTMLDivElement | null>(null)
   const VIS_W = 360
   const VIS_H = 270
 
   // modName se obtiene solo al confirmar (después de copiar el archivo)
   const [internalName, setInternalName] = useState<string>('')
-  const [pageUrl, setPageUrl] = useState('')
+  const [pageUrl, setPageUrl] = useState(initialPageUrl || '')
   const [imageUrl, setImageUrl] = useState('')
   const [imgOk, setImgOk] = useState(true)
   const [srcDataUrl, setSrcDataUrl] = useState<string>('')
+  const [info, setInfo] = useState<ModInfo>({})
+  const [target, setTarget] = useState(character)
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null)
+  // Encrypted archives ask for the password; archives inside the archive can be unpacked in place
+  const [encrypted, setEncrypted] = useState(false)
+  const [password, setPassword] = useState('')
+  const [nested, setNested] = useState<string[]>([])
+  const [unpackNested, setUnpackNested] = useState(true)
+  const [saving, setSaving] = useState(false)
+  // Multi-variant packs: which variant folders to install and which one starts enabled ('' = the pack's own)
+  const [variants, setVariants] = useState<string[]>([])
+  const [selectedVariants, setSelectedVariants] = useState<string[]>([])
+  const [activeVariant, setActiveVariant] = useState('')
+  const [contents, setContents] = useState<{ entries: Array<{ path: string; folder: boolean; size: number }>; check: ArchiveCheck; truncated: boolean } | null>(null)
 
   useEffect(() => {
     function onDocDown(e: MouseEvent) {
@@ -49,14 +71,48 @@ export default function AgregarMod({ character, archivePath, archiveFileName, on
       try {
         const name = await window.api.peekPrimaryInternalName(archivePath)
         if (!cancelled && name) setInternalName(name)
-      } catch {}
+      } catch { /* nothing to prefill */ }
     }
     peek()
     return () => { cancelled = true }
   }, [archivePath])
 
-  async function fetchPreviewFromUrl() {
-    const u = imageUrl.trim()
+  // Which character the INI hashes (or the name) point to
+  useEffect(() => {
+    let cancelled = false
+    window.api.detectCharacter(archivePath)
+      .then((res) => { if (!cancelled) setSuggestion(res) })
+      .catch(() => {})
+    return () => { cancelled = true }
+  }, [archivePath])
+
+  useEffect(() => {
+    let cancelled = false
+    window.api.inspectArchive(archivePath)
+      .then((res) => {
+        if (cancelled) return
+        setEncrypted(res.encrypted)
+        setNested(res.nested)
+        setVariants(res.variants)
+        setSelectedVariants(res.variants)
+        if (res.check) setContents({ entries: res.entries, check: res.check, truncated: res.truncated })
+      })
+      .catch(() => {})
+    return () => { cancelled = true }
+  }, [archivePath])
+
+  // With encrypted headers the content is only listed once the password is known
+  async function inspectWithPassword() {
+    if (!password) return
+    try {
+      const res = await window.api.inspectArchive(archivePath, password)
+      if (res.listed) { setNested(res.nested); setVariants(res.variants); setSelectedVariants(res.variants) }
+      if (res.check) setContents({ entries: res.entries, check: res.check, truncated: res.truncated })
+    } catch { /* the listing is only informative: saving checks the password again */ }
+  }
+
+  async function fetchPreviewFromUrl(url = imageUrl) {
+    const u = url.trim()
     if (!u) { setSrcDataUrl(''); setImgOk(true); return }
     try {
       const data = await window.api.fetchImageDataUrl(u)
@@ -69,26 +125,60 @@ export default function AgregarMod({ character, archivePath, archiveFileName, on
   }
 
   async function handleSave() {
+    if (encrypted && !password) { alert('Este archivo está protegido con contraseña.'); return }
+    const multiVariant = variants.length >= 2
+    if (multiVariant && selectedVariants.length === 0) { alert('Elige al menos una variante.'); return }
+    setSaving(true)
+    let modName: string
     try {
       // Convertir el archivo a carpeta de mod (confirmación explícita)
-      const { modName } = await window.api.createModFromArchive(character, archivePath)
+      const res = await window.api.createModFromArchive(target, archivePath, {
+        password: encrypted ? password : undefined,
+        unpackNested: nested.length > 0 && unpackNested,
+        variants: multiVariant ? selectedVariants : undefined,
+        activeVariant: multiVariant && selectedVariants.includes(activeVariant) ? activeVariant : undefined,
+      })
+      modName = res.modName
+    } catch (e) {
+      setSaving(false)
+      const msg = e instanceof Error ? e.message : String(e)
+      // Keep the modal open so the password can be corrected
+      if (/password/i.test(msg)) {
+        setEncrypted(true)
+        alert(/wrong/i.test(msg) ? 'Contraseña incorrecta.' : 'Este archivo está protegido con contraseña.')
+        return
+      }
+      alert('No se pudo agregar el mod: ' + msg)
+      onClose()
+      return
+    }
+    try {
       // Guardar preview si se proporcionó
       if (srcDataUrl) {
-        await window.api.saveModImageFromDataUrl(character, modName, srcDataUrl)
+        await window.api.saveModImageFromDataUrl(target, modName, srcDataUrl)
       } else if (imageUrl.trim()) {
-        await window.api.saveModImageFromUrl(character, modName, imageUrl.trim())
+        await window.api.saveModImageFromUrl(target, modName, imageUrl.trim())
       }
       // Escribir data.txt
-      await window.api.setModData(character, modName, {
+      await window.api.setModData(target, modName, {
         pageUrl: pageUrl.trim() || undefined,
         imageUrl: imageUrl.trim() || undefined,
       })
+      // The mod is already added: these steps only report their failures
+      const warnings: string[] = []
+      // Datos importados de GameBanana (título, autor, versión, descripción, archivos)
+      if (info.title || info.author || info.description || info.version || info.files?.length) {
+        try { await window.api.saveModInfo(target, modName, info) } catch (e) { warnings.push('No se guardaron los datos de GameBanana: ' + (e instanceof Error ? e.message : String(e))) }
+      }
       // Renombrar interno si cambió (handler valida). En carpeta renombra la entrada principal.
-      if (internalName.trim()) {
-        try { await window.api.renamePrimaryInternal(character, modName, internalName.trim()) } catch {}
+      // Con variantes la entrada principal sería una de ellas: no se renombra.
+      if (internalName.trim() && !multiVariant) {
+        try { await window.api.renamePrimaryInternal(target, modName, internalName.trim()) } catch (e) { warnings.push('No se renombró el archivo interno: ' + (e instanceof Error ? e.message : String(e))) }
       }
-      await onSaved?.()
+      if (warnings.length) alert('El mod se agregó, pero:\n' + warnings.join('\n'))
+      await onSaved?.(target)
     } finally {
+      setSaving(false)
       onClose()
     }
   }
@@ -124,11 +214,32 @@ export default function AgregarMod({ character, archivePath, archiveFileName, on
             <div className="muted" style={{ fontSize: 12, textAlign: 'center' }}>Sin recuadro: se muestra la imagen tal cual, ajustada al tamaño.</div>
           </div>
 
-          {/* Internal mod name (editable) */}
+          {/* Target character (the hashes may point elsewhere) */}
           <div className="field-row">
-            <div className="label">Nombre del Mod</div>
-            <input value={internalName} onChange={(e) => setInternalName(e.target.value)} placeholder="Carpeta o archivo principal dentro del archivo" />
+            <div className="label">Personaje</div>
+            <select value={target} onChange={(e) => setTarget(e.target.value)}>
+              {Array.from(new Set([character, ...characters, ...(suggestion?.character ? [suggestion.character] : [])])).map((c) => (
+                <option key={c} value={c}>{c}{characters.length && !characters.includes(c) && c !== character ? ' (nuevo)' : ''}</option>
+              ))}
+            </select>
           </div>
+          {suggestion?.character && !sameCharacter(suggestion.character, target) && (
+            <div className="character-warning">
+              ⚠ {suggestion.reason === 'hash' ? 'Los hashes de este mod' : 'El nombre de este mod'} indican {suggestion.character}, no {target}.
+              <button type="button" onClick={() => setTarget(suggestion.character!)}>Usar {suggestion.character}</button>
+            </div>
+          )}
+          {suggestion?.character && sameCharacter(suggestion.character, target) && suggestion.reason === 'hash' && (
+            <div className="muted">✓ Los hashes coinciden con {target}.</div>
+          )}
+
+          {/* Internal mod name (editable) */}
+          {variants.length < 2 && (
+            <div className="field-row">
+              <div className="label">Nombre del Mod</div>
+              <input value={internalName} onChange={(e) => setInternalName(e.target.value)} placeholder="Carpeta o archivo principal dentro del archivo" />
+            </div>
+          )}
 
           {/* Archive name (read-only) */}
           <div className="field-row">
@@ -136,6 +247,51 @@ export default function AgregarMod({ character, archivePath, archiveFileName, on
             <input value={archiveFileName} readOnly />
           </div>
 
+          {encrypted && (
+            <div className="field-row">
+              <div className="label">Contraseña</div>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onBlur={inspectWithPassword}
+                placeholder="El archivo está protegido con contraseña"
+              />
+            </div>
+          )}
+
+          {contents && <ArbolArchivo entries={contents.entries} check={contents.check} truncated={contents.truncated} />}
+
+          {nested.length > 0 && (
+            <label className="muted" style={{ display: 'flex', gap: 6, alignItems: 'flex-start' }} title={nested.join('\n')}>
+              <input type="checkbox" checked={unpackNested} onChange={(e) => setUnpackNested(e.target.checked)} />
+              Descomprimir también {nested.length === 1 ? `el archivo interno ${nested[0]}` : `los ${nested.length} archivos internos`} (ZIP/7z/RAR dentro del archivo)
+            </label>
+          )}
+
+          {variants.length >= 2 && (
+            <div className="variant-picker">
+              <div className="muted">Este pack trae {variants.length} variantes. Elige cuáles instalar y cuál queda activa (las demás se instalan desactivadas y se pueden cambiar desde la tarjeta del mod).</div>
+              {variants.map((v) => (
+                <div key={v} className="variant-row">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={selectedVariants.includes(v)}
+                      onChange={(e) => setSelectedVariants((prev) => e.target.checked ? variants.filter((x) => x === v || prev.includes(x)) : prev.filter((x) => x !== v))}
+                    />
+                    {v}
+                  </label>
+                  <label className="muted">
+                    <input type="radio" name="active-variant" checked={activeVariant === v} disabled={!selectedVariants.includes(v)} onChange={() => setActiveVariant(v)} />
+                    Activa
+                  </label>
+                </div>
+              ))}
+              {!activeVariant && <div className="muted" style={{ fontSize: 12 }}>Sin elegir: queda activa la que el pack trae activada (o la primera).</div>}
+            </div>
+          )}
+
           {/* Mod URL */}
           <div className="field-row">
             <div className="label">URL del Mod</div>
@@ -146,6 +302,13 @@ export default function AgregarMod({ character, archivePath, archiveFileName, on
             />
           </div>
 
+          <ImportarGameBanana
+            pageUrl={pageUrl}
+            info={info}
+            onChange={setInfo}
+            onPickImage={(url) => { setImageUrl(url); fetchPreviewFromUrl(url) }}
+          />
+
           {/* Image URL */}
           <div className="field-row">
             <div className="label">URL de Imagen</div>
@@ -164,7 +327,7 @@ export default function AgregarMod({ character, archivePath, archiveFileName, on
 
           <div style={{ display: 'flex', gap: 8, marginTop: 16, justifyContent: 'flex-end' }}>
             <button className="secondary" onClick={onClose}>Cancelar</button>
-            <button onClick={handleSave}>Agregar Mod</button>
+            <button onClick={handleSave} disabled={saving || !!contents?.check.blocking}>{saving ? 'Agregando…' : 'Agregar Mod'}</button>
           </div>
         </div>
       </div>
@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from 'react'
+
+// Randomizer: enables one random mod per character (the rest are disabled), for the selected
+// character or the whole library. The last shuffle can be undone from the history.
+
+type HistoryEntry = { at: string; character: string | null; picked: Array<{ character: string; mod: string }> }
+
+type Props = {
+  character: string
+  onClose: () => void
+  onChanged?: () => void | Promise<void>
+}
+
+export default function Aleatorio({ character, onClose, onChanged }: Props) {
+  const modalRef = useRef<HTMLDivElement | null>(null)
+  const [scope, setScope] = useState<'character' | 'all'>(character ? 'character' : 'all')
+  const [weightFavorites, setWeightFavorites] = useState(false)
+  const [excludeTags, setExcludeTags] = useState('')
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      const el = e.target as HTMLElement
+      if (!modalRef.current) return
+      if (!modalRef.current.contains(el)) onClose()
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape') onClose() }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [onClose])
+
+  async function reloadHistory() {
+    try { setHistory(await window.api.getShuffleHistory()) } catch { setHistory([]) }
+  }
+
+  useEffect(() => { reloadHistory() }, [])
+
+  async function handleShuffle() {
+    setBusy(true)
+    try {
+      const res = await window.api.randomizeMods({
+        character: scope === 'character' ? character : undefined,
+        weightFavorites,
+        excludeTags: excludeTags.split(',').map((t) => t.trim()).filter(Boolean),
+      })
+      await onChanged?.()
+      if (res.picked.length === 0) alert('No hay mods que cumplan las condiciones.')
+    } catch (e) {
+      alert('No se pudo mezclar: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+      await reloadHistory()
+    }
+  }
+
+  async function handleRevert() {
+    setBusy(true)
+    try {
+      await window.api.revertShuffle()
+      await onChanged?.()
+    } catch (e) {
+      alert('No se pudo deshacer: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+      await reloadHistory()
+    }
+  }
+
+  return (
+    <div className="overlay">
+      <div ref={modalRef} className="modal">
+        <div className="modal-header">
+          <div className="modal-title">Mods aleatorios</div>
+          <button className="icon" onClick={onClose}>×</button>
+        </div>
+        <div className="modal-body">
+          <label className="muted" style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <input type="radio" checked={scope === 'character'} disabled={!character} onChange={() => setScope('character')} />
+            Solo {character || 'el personaje seleccionado'}
+          </label>
+          <label className="muted" style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} />
+            Todos los personajes
+          </label>
+          <label className="muted" style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <input type="checkbox" checked={weightFavorites} onChange={(e) => setWeightFavorites(e.target.checked)} />
+            Dar más probabilidad a los favoritos
+          </label>
+          <div className="field-row">
+            <div className="label">Excluir etiquetas</div>
+            <input value={excludeTags} onChange={(e) => setExcludeTags(e.target.value)} placeholder="nsfw, wip…" />
+          </div>
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            <button disabled={busy || history.length === 0} onClick={handleRevert}>Deshacer última mezcla</button>
+            <button disabled={busy} onClick={handleShuffle}>🎲 Mezclar</button>
+          </div>
+          {history.length > 0 && (
+            <div>
+              <div className="label muted">Historial</div>
+              {history.map((h, i) => (
+                <div key={h.at + i} className="muted" title={h.picked.map((p) => `${p.character}: ${p.mod}`).join('\n')}>
+                  {new Date(h.at).toLocaleString()} · {h.character || 'Todos'} · {h.picked.length === 1 ? h.picked[0].mod : `${h.picked.length} personajes`}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useMemo } from 'react'
+
+// File tree of an archive before installing it (from `7z l -slt`), with the safety warnings.
+// Blocking warnings mean the main process will refuse to extract the archive.
+
+type Entry = { path: string; folder: boolean; size: number }
+
+export type ArchiveCheck = {
+  fileCount: number
+  totalSize: number
+  warnings: Array<{ kind: 'unsafePath' | 'executable' | 'tooLarge' | 'tooManyFiles' | 'large'; path?: string; blocking: boolean }>
+  blocking: boolean
+}
+
+type Props = {
+  entries: Entry[]
+  check: ArchiveCheck
+  truncated?: boolean
+}
+
+type Node = { name: string; size: number; children: Map<string, Node> | null }
+
+const WARNING_LABEL: Record<ArchiveCheck['warnings'][number]['kind'], string> = {
+  unsafePath: 'Ruta fuera de la carpeta del mod (absoluta o con ..)',
+  executable: 'Ejecutable o script',
+  tooLarge: 'Contenido demasiado grande',
+  tooManyFiles: 'Demasiados archivos',
+  large: 'Contenido grande',
+}
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 * 1024 * 1024) return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB'
+  if (bytes >= 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB'
+  if (bytes >= 1024) return (bytes / 1024).toFixed(0) + ' KB'
+  return bytes + ' B'
+}
+
+function buildTree(entries: Entry[]): Node {
+  const root: Node = { name: '', size: 0, children: new Map() }
+  for (const e of entries) {
+    const parts = e.path.split(/[\\/]/).filter(Boolean)
+    let node = root
+    parts.forEach((part, i) => {
+      const leaf = i === parts.length - 1 && !e.folder
+      let next = node.children!.get(part)
+      if (!next) {
+        next = { name: part, size: 0, children: leaf ? null : new Map() }
+        node.children!.set(part, next)
+      }
+      if (!leaf && !next.children) next.children = new Map()
+      node.size += e.folder ? 0 : e.size
+      if (leaf) next.size = e.size
+      node = next
+    })
+  }
+  return root
+}
+
+function TreeNode({ node, flagged }: { node: Node; flagged: Set<string> }) {
+  const items = Array.from(node.children?.values() || []).sort((a, b) => {
+    if (!!a.children !== !!b.children) return a.children ? -1 : 1
+    return a.name.localeCompare(b.name)
+  })
+  return (
+    <>
+      {items.map((child) => child.children ? (
+        <details key={child.name} className="tree-folder" open={node.name === ''}>
+          <summary>📁 {child.name} <span className="muted">{formatSize(child.size)}</span></summary>
+          <div className="tree-children"><TreeNode node={child} flagged={flagged} /></div>
+        </details>
+      ) : (
+        <div key={child.name} className={flagged.has(child.name) ? 'tree-file flagged' : 'tree-file'}>
+          {child.name} <span className="muted">{formatSize(child.size)}</span>
+        </div>
+      ))}
+    </>
+  )
+}
+
+export default function ArbolArchivo({ entries, check, truncated }: Props) {
+  const tree = useMemo(() => buildTree(entries), [entries])
+  // File names with a warning are highlighted in the tree
+  const flagged = useMemo(() => new Set(check.warnings.filter((w) => w.path).map((w) => w.path!.split(/[\\/]/).pop() || '')), [check])
+
+  return (
+    <div className="archive-tree">
+      {check.warnings.length > 0 && (
+        <div className="archive-warnings">
+          {check.warnings.map((w, i) => (
+            <div key={i} className={w.blocking ? 'archive-warning blocking' : 'archive-warning'}>
+              {w.blocking ? '⛔' : '⚠'} {WARNING_LABEL[w.kind]}{w.path ? `: ${w.path}` : ''}
+            </div>
+          ))}
+          {check.blocking && <div className="archive-warning blocking">Este archivo no se puede instalar.</div>}
+        </div>
+      )}
+      <details>
+        <summary>Contenido: {check.fileCount} archivos · {formatSize(check.totalSize)}</summary>
+        <div className="tree-children">
+          <TreeNode node={tree} flagged={flagged} />
+          {truncated && <div className="muted">… (lista recortada)</div>}
+        </div>
+      </details>
+    </div>
+  )
+}
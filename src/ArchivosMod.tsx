@@ -0,0 +1,120 @@
+import { useMemo, useRef, useState } from 'react'
+
+// Files of an installed mod (folder on disk or flat archive) with open/rename/delete actions.
+// Files inside an archive are opened from a temporary copy, so edits there are not saved.
+
+type Entry = { path: string; folder: boolean; size: number }
+
+export type ModFileList = {
+  kind: 'folder' | 'flat'
+  fileName: string
+  entries: Entry[]
+  truncated: boolean
+}
+
+type Props = {
+  character: string
+  modName: string
+  list: ModFileList
+  onChanged: () => void | Promise<void>
+}
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 * 1024 * 1024) return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB'
+  if (bytes >= 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB'
+  if (bytes >= 1024) return (bytes / 1024).toFixed(0) + ' KB'
+  return bytes + ' B'
+}
+
+const splitPath = (p: string) => p.split(/[\\/]/).filter(Boolean)
+
+export default function ArchivosMod({ character, modName, list, onChanged }: Props) {
+  const [editing, setEditing] = useState<{ path: string; value: string } | null>(null)
+  const [busy, setBusy] = useState(false)
+  // Escape unmounts the input, and a blur fired on the way out must not apply the rename
+  const cancelRename = useRef(false)
+
+  // Path order keeps every folder right above its contents; depth gives the indentation
+  const rows = useMemo(() => [...list.entries]
+    .sort((a, b) => splitPath(a.path).join('/').localeCompare(splitPath(b.path).join('/')))
+    .map((e) => {
+      const parts = splitPath(e.path)
+      return { ...e, name: parts[parts.length - 1] || e.path, depth: parts.length - 1 }
+    }), [list.entries])
+
+  const fileCount = list.entries.filter((e) => !e.folder).length
+  const totalSize = list.entries.reduce((n, e) => n + (e.folder ? 0 : e.size), 0)
+
+  async function run(action: () => Promise<unknown>, what: string) {
+    setBusy(true)
+    try {
+      await action()
+      await onChanged()
+    } catch (e) {
+      alert(`No se pudo ${what}: ` + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleOpen(file: string) {
+    try {
+      await window.api.openModFile(character, modName, file)
+    } catch (e) {
+      alert('No se pudo abrir el archivo: ' + (e instanceof Error ? e.message : String(e)))
+    }
+  }
+
+  async function handleRename() {
+    if (!editing || cancelRename.current) return
+    const { path, value } = editing
+    setEditing(null)
+    if (!value.trim() || value.trim() === splitPath(path).pop()) return
+    await run(() => window.api.renameModFile(character, modName, path, value.trim()), 'renombrar el archivo')
+  }
+
+  async function handleDelete(entry: Entry) {
+    const label = entry.folder ? `la carpeta "${entry.path}" y todo su contenido` : `"${entry.path}"`
+    if (!confirm(`Eliminar ${label}? No se puede deshacer.`)) return
+    await run(() => window.api.deleteModFile(character, modName, entry.path), 'eliminar el archivo')
+  }
+
+  return (
+    <details className="mod-files">
+      <summary>Archivos: {fileCount} · {formatSize(totalSize)}{list.kind === 'flat' ? ` · dentro de ${list.fileName}` : ''}</summary>
+      <table className="ini-table mod-files-table">
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.path}>
+              <td style={{ paddingLeft: 6 + r.depth * 14 }} title={r.path}>
+                {editing?.path === r.path ? (
+                  <input
+                    autoFocus
+                    value={editing.value}
+                    onChange={(e) => setEditing({ path: r.path, value: e.target.value })}
+                    onBlur={handleRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') (e.target as HTMLInputElement).blur()
+                      // Escape would also close the modal
+                      if (e.key === 'Escape') { e.stopPropagation(); cancelRename.current = true; setEditing(null) }
+                    }}
+                  />
+                ) : (
+                  <>{r.folder ? '📁 ' : ''}{r.name}</>
+                )}
+              </td>
+              <td className="muted">{r.folder ? '' : formatSize(r.size)}</td>
+              <td className="mod-files-actions">
+                {!r.folder && <button className="secondary" disabled={busy} onClick={() => handleOpen(r.path)}>Abrir</button>}
+                <button className="secondary" disabled={busy} onClick={() => { cancelRename.current = false; setEditing({ path: r.path, value: r.name }) }}>Renombrar</button>
+                <button className="secondary" disabled={busy} onClick={() => handleDelete(r)}>Eliminar</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {list.truncated && <div className="muted">… (lista recortada)</div>}
+      {list.kind === 'flat' && <div className="muted" style={{ fontSize: 12 }}>Los archivos se abren desde una copia temporal: los cambios no se guardan en el mod.</div>}
+    </details>
+  )
+}
@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+
+// Global search (header): matches character names and, across every character, mod folder names,
+// internal names, page URLs and tags. Filters and sorting only apply to the mod results; picking a
+// result selects its character and scrolls to the mod card.
+
+type LibraryMod = {
+  character: string
+  folder: string
+  name: string
+  internalName: string | null
+  pageUrl?: string
+  previewPath: string | null
+  enabled: boolean
+  flat: boolean
+  tags: string[]
+  favorite: boolean
+  createdAt?: string
+  updatedAt?: string
+}
+
+type Props = {
+  characters: string[]
+  onJump: (character: string, folder?: string) => void
+}
+
+type TriState = 'all' | 'yes' | 'no'
+type Filters = {
+  enabled: TriState
+  url: TriState
+  preview: TriState
+  kind: 'all' | 'folder' | 'flat'
+  favorite: TriState
+}
+type SortKey = 'name' | 'createdAt' | 'updatedAt'
+
+const NO_FILTERS: Filters = { enabled: 'all', url: 'all', preview: 'all', kind: 'all', favorite: 'all' }
+const MAX_RESULTS = 200
+
+const matchesTri = (value: boolean, f: TriState) => f === 'all' || (f === 'yes') === value
+
+const displayName = (m: LibraryMod) => m.internalName || m.name || m.folder
+
+function formatDate(iso?: string) {
+  if (!iso) return ''
+  const d = new Date(iso)
+  return isNaN(d.getTime()) ? '' : d.toLocaleDateString()
+}
+
+export default function BuscarMods({ characters, onJump }: Props) {
+  const ref = useRef<HTMLDivElement | null>(null)
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS)
+  const [sort, setSort] = useState<SortKey>('name')
+  const [mods, setMods] = useState<LibraryMod[]>([])
+  const [loading, setLoading] = useState(false)
+
+  // Close on click outside or Esc
+  useEffect(() => {
+    if (!open) return
+    function onDocDown(e: MouseEvent) {
+      if (!ref.current) return
+      if (!ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape') setOpen(false) }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [open])
+
+  // The whole library is read every time the panel opens, so it reflects installs made meanwhile
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setLoading(true)
+    window.api.listAllMods()
+      .then((list) => { if (!cancelled) setMods(list) })
+      .catch(() => {})
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [open])
+
+  const tokens = useMemo(() => query.toLowerCase().split(/\s+/).filter(Boolean), [query])
+  const filtering = tokens.length > 0 || JSON.stringify(filters) !== JSON.stringify(NO_FILTERS)
+
+  const matchedCharacters = useMemo(
+    () => tokens.length ? characters.filter((c) => tokens.every((t) => c.toLowerCase().includes(t))) : [],
+    [characters, tokens]
+  )
+
+  const results = useMemo(() => {
+    if (!filtering) return []
+    const list = mods.filter((m) => {
+      if (!matchesTri(m.enabled, filters.enabled)) return false
+      if (!matchesTri(!!m.pageUrl, filters.url)) return false
+      if (!matchesTri(!!m.previewPath, filters.preview)) return false
+      if (filters.kind !== 'all' && (filters.kind === 'flat') !== m.flat) return false
+      if (!matchesTri(m.favorite, filters.favorite)) return false
+      const haystack = [m.character, m.folder, m.name, m.internalName || '', m.pageUrl || '', ...m.tags].join('\n').toLowerCase()
+      return tokens.every((t) => haystack.includes(t))
+    })
+    // Dates: newest first; mods without a date go last
+    if (sort === 'name') list.sort((a, b) => displayName(a).localeCompare(displayName(b)) || a.character.localeCompare(b.character))
+    else list.sort((a, b) => (b[sort] || '').localeCompare(a[sort] || ''))
+    return list
+  }, [mods, filters, sort, tokens, filtering])
+
+  function setFilter<K extends keyof Filters>(key: K, value: Filters[K]) {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+  }
+
+  function jump(character: string, folder?: string) {
+    setOpen(false)
+    onJump(character, folder)
+  }
+
+  return (
+    <div ref={ref} className="update-wrapper search-wrapper">
+      <input
+        className="search-input"
+        type="search"
+        value={query}
+        placeholder="🔍 Buscar personajes y mods…"
+        onFocus={() => setOpen(true)}
+        onChange={(e) => { setQuery(e.target.value); setOpen(true) }}
+      />
+      {open && (
+        <div className="update-panel search-panel">
+          <div className="search-filters">
+            <select value={filters.enabled} onChange={(e) => setFilter('enabled', e.target.value as TriState)}>
+              <option value="all">Activos y desactivados</option>
+              <option value="yes">Solo activos</option>
+              <option value="no">Solo desactivados</option>
+            </select>
+            <select value={filters.url} onChange={(e) => setFilter('url', e.target.value as TriState)}>
+              <option value="all">Con y sin URL</option>
+              <option value="yes">Con URL</option>
+              <option value="no">Sin URL</option>
+            </select>
+            <select value={filters.preview} onChange={(e) => setFilter('preview', e.target.value as TriState)}>
+              <option value="all">Con y sin vista previa</option>
+              <option value="yes">Con vista previa</option>
+              <option value="no">Sin vista previa</option>
+            </select>
+            <select value={filters.kind} onChange={(e) => setFilter('kind', e.target.value as Filters['kind'])}>
+              <option value="all">Carpetas y archivos</option>
+              <option value="folder">Solo carpetas</option>
+              <option value="flat">Solo ZIP/7z/RAR</option>
+            </select>
+            <select value={filters.favorite} onChange={(e) => setFilter('favorite', e.target.value as TriState)}>
+              <option value="all">Favoritos y el resto</option>
+              <option value="yes">Solo favoritos</option>
+              <option value="no">Sin favoritos</option>
+            </select>
+            <select value={sort} onChange={(e) => setSort(e.target.value as SortKey)}>
+              <option value="name">Ordenar por nombre</option>
+              <option value="createdAt">Más recientes primero</option>
+              <option value="updatedAt">Actualizados recientemente</option>
+            </select>
+            {filtering && <button className="secondary" onClick={() => { setQuery(''); setFilters(NO_FILTERS) }}>Limpiar</button>}
+          </div>
+          {matchedCharacters.length > 0 && (
+            <div className="search-characters">
+              {matchedCharacters.map((c) => <button key={c} className="secondary" onClick={() => jump(c)}>{c}</button>)}
+            </div>
+          )}
+          {loading && mods.length === 0 && <div className="muted">Cargando mods…</div>}
+          {!filtering && !loading && <div className="muted">Escribe para buscar o elige un filtro. {mods.length} mods en total.</div>}
+          {filtering && !loading && results.length === 0 && matchedCharacters.length === 0 && <div className="muted">Sin resultados.</div>}
+          {results.length > 0 && (
+            <div className="search-results">
+              {results.slice(0, MAX_RESULTS).map((m) => (
+                <div key={m.character + '::' + m.folder} className="search-result" onClick={() => jump(m.character, m.folder)} title={m.pageUrl || m.folder}>
+                  <div className="search-result-name">
+                    {m.favorite && <span className="mod-favorite on">★ </span>}
+                    {displayName(m)}
+                    {!m.enabled && <span className="muted"> · desactivado</span>}
+                    {m.flat && <span className="muted"> · archivo</span>}
+                  </div>
+                  <div className="muted search-result-meta">
+                    <span className="search-result-character">{m.character}</span>
+                    {m.folder !== displayName(m) && <span>{m.folder}</span>}
+                    {m.tags.length > 0 && <span>{m.tags.join(', ')}</span>}
+                    {sort !== 'name' && <span>{formatDate(m[sort])}</span>}
+                  </div>
+                </div>
+              ))}
+              {results.length > MAX_RESULTS && <div className="muted">… y {results.length - MAX_RESULTS} más. Afina la búsqueda.</div>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
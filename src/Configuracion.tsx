@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react'
 
-type Settings = { modsRoot?: string; imagesRoot?: string }
+type Settings = { modsRoot?: string; imagesRoot?: string; trashMaxAgeDays?: number; trashMaxSizeMB?: number }
+type HashDbInfo = { version: number; updatedAt: string | null; source: 'bundled' | 'user' | 'none'; characters: number; hashes: number; learned: number }
 
 type Props = {
   // Optional notify to parent when settings changed
@@ -10,6 +11,12 @@ type Props = {
 
 export default function Configuracion({ onSettingsChanged, onClose }: Props) {
   const [settings, setSettings] = useState<Settings>({})
+  // Recycle bin retention (0 = no limit); defaults mirror the main process
+  const [trashDays, setTrashDays] = useState('30')
+  const [trashMB, setTrashMB] = useState('2048')
+  // Character database: names/aliases, plus optional hashes (character suggestion when adding/importing mods)
+  const [hashDb, setHashDb] = useState<HashDbInfo | null>(null)
+  const [hashDbBusy, setHashDbBusy] = useState(false)
 
   useEffect(() => {
     function onDoc(e: MouseEvent) {
@@ -23,7 +30,12 @@ export default function Configuracion({ onSettingsChanged, onClose }: Props) {
 
   useEffect(() => {
     // Load current settings when modal opens
-    window.api.getSettings().then((s) => setSettings(s))
+    window.api.getSettings().then((s) => {
+      setSettings(s)
+      if (s.trashMaxAgeDays !== undefined) setTrashDays(String(s.trashMaxAgeDays))
+      if (s.trashMaxSizeMB !== undefined) setTrashMB(String(s.trashMaxSizeMB))
+    })
+    window.api.getHashDbInfo().then(setHashDb).catch(() => {})
   }, [])
 
   async function changeModsRoot() {
@@ -42,6 +54,38 @@ export default function Configuracion({ onSettingsChanged, onClose }: Props) {
     onSettingsChanged?.(newSettings)
   }
 
+  async function saveTrashPolicy() {
+    const newSettings = await window.api.setTrashPolicy({ maxAgeDays: Number(trashDays) || 0, maxSizeMB: Number(trashMB) || 0 })
+    setSettings(newSettings)
+    onSettingsChanged?.(newSettings)
+  }
+
+  async function importHashDb() {
+    setHashDbBusy(true)
+    try {
+      const res = await window.api.importHashDb()
+      if (res) alert(`Base de personajes v${res.version} importada: ${res.characters} personajes, ${res.hashes} hashes.`)
+      setHashDb(await window.api.getHashDbInfo())
+    } catch (e) {
+      alert('No se pudo importar la base de personajes: ' + (e instanceof Error ? e.message : e))
+    } finally {
+      setHashDbBusy(false)
+    }
+  }
+
+  async function learnHashes() {
+    setHashDbBusy(true)
+    try {
+      const res = await window.api.learnHashesFromLibrary()
+      alert(`Hashes aprendidos de la biblioteca: ${res.hashes} (${res.characters} personajes).`)
+      setHashDb(await window.api.getHashDbInfo())
+    } catch (e) {
+      alert('No se pudieron aprender los hashes: ' + (e instanceof Error ? e.message : e))
+    } finally {
+      setHashDbBusy(false)
+    }
+  }
+
   return (
     <div className="overlay">
       <div className="modal">
@@ -60,6 +104,27 @@ export default function Configuracion({ onSettingsChanged, onClose }: Props) {
             <div className="path">{settings.imagesRoot || 'No seleccionada'}</div>
             <button onClick={changeImagesRoot}>Cambiar…</button>
           </div>
+          <div className="field-row">
+            <div className="label">Papelera: días</div>
+            <input type="number" min={0} value={trashDays} onChange={(e) => setTrashDays(e.target.value)} onBlur={saveTrashPolicy} title="Los elementos más antiguos se eliminan definitivamente (0 = sin límite)" />
+          </div>
+          <div className="field-row">
+            <div className="label">Papelera: MB máx.</div>
+            <input type="number" min={0} value={trashMB} onChange={(e) => setTrashMB(e.target.value)} onBlur={saveTrashPolicy} title="Si se supera, se eliminan los elementos más antiguos (0 = sin límite)" />
+          </div>
+          <div className="field-row">
+            <div className="label">Base de personajes</div>
+            <div className="path" title={hashDb?.updatedAt || ''}>
+              {hashDb
+                ? `v${hashDb.version} (${hashDb.source === 'user' ? 'importada' : hashDb.source === 'bundled' ? 'incluida' : 'ninguna'}) · ${hashDb.characters} personajes · ${hashDb.hashes} hashes · ${hashDb.learned} aprendidos`
+                : '—'}
+            </div>
+            <button disabled={hashDbBusy} onClick={importHashDb} title="Importar una base de personajes con hashes (JSON)">Importar…</button>
+            <button disabled={hashDbBusy} onClick={learnHashes} title="Guardar los hashes de los mods ya ordenados por personaje">Aprender</button>
+          </div>
+          {hashDb && hashDb.hashes + hashDb.learned === 0 && (
+            <div className="muted">El personaje se detecta por el nombre y los alias del mod. Para reconocerlo también por los hashes del INI, importa una base con hashes o pulsa "Aprender" con la biblioteca ya ordenada.</div>
+          )}
           <hr />
           <div className="made-by">Hecho por Syleaf</div>
         </div>
@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react'
+
+// Download queue (header dropdown). Items come from the main process through onDownloadsChanged;
+// finished downloads are installed there, so this panel only shows progress and offers cancel/retry.
+
+export type DownloadItem = {
+  id: string
+  url: string
+  character: string
+  fileName?: string
+  status: 'queued' | 'downloading' | 'installing' | 'done' | 'error' | 'cancelled'
+  received: number
+  total: number
+  error?: string
+  filePath?: string
+  modName?: string
+}
+
+type Props = {
+  items: DownloadItem[]
+  onClose: () => void
+}
+
+const STATUS_LABEL: Record<DownloadItem['status'], string> = {
+  queued: 'En cola',
+  downloading: 'Descargando',
+  installing: 'Instalando',
+  done: 'Listo',
+  error: 'Error',
+  cancelled: 'Cancelado',
+}
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB'
+  if (bytes >= 1024) return (bytes / 1024).toFixed(0) + ' KB'
+  return bytes + ' B'
+}
+
+export default function Descargas({ items, onClose }: Props) {
+  const ref = useRef<HTMLDivElement | null>(null)
+
+  // Close on click outside
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      if (!ref.current) return
+      if (!ref.current.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('mousedown', onDocDown)
+    return () => document.removeEventListener('mousedown', onDocDown)
+  }, [onClose])
+
+  async function run(action: () => Promise<boolean>, what: string) {
+    try { await action() } catch (e) { alert(`No se pudo ${what}: ` + (e instanceof Error ? e.message : e)) }
+  }
+
+  async function clearFinished() {
+    for (const it of items) {
+      if (it.status === 'done' || it.status === 'cancelled') await run(() => window.api.removeDownload(it.id), 'quitar la descarga')
+    }
+  }
+
+  return (
+    <div ref={ref} className="update-panel download-panel">
+      {items.length === 0 && <div className="muted">No hay descargas.</div>}
+      {items.map((it) => {
+        const pct = it.total > 0 ? Math.min(100, Math.round((it.received / it.total) * 100)) : 0
+        const active = it.status === 'downloading' || it.status === 'installing'
+        return (
+          <div key={it.id} className="download-row">
+            <div className="trash-info" title={it.url}>
+              <div className="mod-name">{it.modName || it.fileName || it.url}</div>
+              <div className="muted">
+                {it.character} · {STATUS_LABEL[it.status]}
+                {it.status === 'downloading' && ` · ${formatSize(it.received)}${it.total ? ' / ' + formatSize(it.total) : ''}`}
+                {it.error ? ' · ' + it.error : ''}
+              </div>
+              {it.status === 'downloading' && (
+                <div className={'download-progress' + (it.total ? '' : ' indeterminate')}>
+                  <div style={{ width: it.total ? pct + '%' : '100%' }} />
+                </div>
+              )}
+            </div>
+            {(it.status === 'queued' || it.status === 'downloading') && (
+              <button onClick={() => run(() => window.api.cancelDownload(it.id), 'cancelar la descarga')}>Cancelar</button>
+            )}
+            {(it.status === 'error' || it.status === 'cancelled') && (
+              <button onClick={() => run(() => window.api.retryDownload(it.id), 'reintentar la descarga')}>Reintentar</button>
+            )}
+            {!active && it.status !== 'queued' && (
+              <button className="danger" title="Quitar de la lista" onClick={() => run(() => window.api.removeDownload(it.id), 'quitar la descarga')}>×</button>
+            )}
+          </div>
+        )
+      })}
+      {items.some((it) => it.status === 'done' || it.status === 'cancelled') && (
+        <button onClick={clearFinished}>Limpiar terminadas</button>
+      )}
+    </div>
+  )
+}
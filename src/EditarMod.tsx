@@ -1,4 +1,7 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import ImportarGameBanana, { ModInfo } from './ImportarGameBanana'
+import ArchivosMod, { ModFileList } from './ArchivosMod'
+import EtiquetasMod from './EtiquetasMod'
 
 type ModMeta = {
   name: string
@@ -9,6 +12,8 @@ type ModMeta = {
   updateUrl?: string
   image?: string
   enabled?: boolean
+  favorite?: boolean
+  tags?: string[]
   createdAt?: string
   updatedAt?: string
 }
@@ -17,6 +22,15 @@ type ModItem = {
   folder: string
   dir: string
   meta: ModMeta
+  previewPath?: string | null
+}
+
+type IniSummary = {
+  files: string[]
+  namespaces: string[]
+  hashes: Array<{ file: string; section: string; kind: 'texture' | 'shader'; hash: string }>
+  keys: Array<{ file: string; section: string; key: string; back?: string; type?: string; variables: Array<{ name: string; values: string[] }> }>
+  variables: Array<{ file: string; name: string; initial?: string; global: boolean; persist: boolean }>
 }
 
 type Props = {
@@ -31,32 +45,33 @@ export default function EditarMod({ character, mod, onClose, onSaved }: Props) {
   const VIS_W = 360
   const VIS_H = 270
 
-  // Display-only base info
-  const fileName = useMemo(() => {
-    // Try to find a copied archive name inside the mod folder based on common extensions
-    // If not available, show the folder name as a fallback
-    try {
-      // We cannot read the directory directly from the renderer; show folder as a stable fallback
-      return mod.folder
-    } catch {
-      return mod.folder
-    }
-  }, [mod.folder])
-
   const [pageUrl, setPageUrl] = useState('')
   const [imageUrl, setImageUrl] = useState('')
   const [internalName, setInternalName] = useState<string>('')
   const [imgOk, setImgOk] = useState(true)
   const [srcDataUrl, setSrcDataUrl] = useState<string>('')
   const [previewFromUrl, setPreviewFromUrl] = useState(false)
+  const [ini, setIni] = useState<IniSummary | null>(null)
+  const [info, setInfo] = useState<ModInfo>({})
+  const [infoLoaded, setInfoLoaded] = useState<ModInfo>({})
+  const [files, setFiles] = useState<ModFileList | null>(null)
+  const [tags, setTags] = useState<string[]>(mod.meta.tags || [])
+  const [favorite, setFavorite] = useState(!!mod.meta.favorite)
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([])
+  const [variants, setVariants] = useState<{ variants: string[]; active: string | null }>({ variants: [], active: null })
+  // Display-only: the archive name for flat mods, the folder name otherwise
+  const fileName = files?.fileName || mod.folder
 
-  // Load existing preview image. For flat mods (no meta.image), read preview from inside archive.
+  // Load existing preview image. Prefer the on-disk preview known by the library index (served by modimg://);
+  // otherwise, for flat mods (no meta.image), read preview from inside archive.
   useEffect(() => {
     let cancelled = false
     async function loadImage() {
       const rel = mod.meta.image
       try {
-        if (!rel) {
+        if (mod.previewPath) {
+          setSrcDataUrl(window.api.modImageUrl(mod.previewPath))
+        } else if (!rel) {
           const data = await window.api.getModPreviewDataUrl(character, mod.folder)
           if (!cancelled) setSrcDataUrl(data || '')
         } else {
@@ -68,7 +83,7 @@ export default function EditarMod({ character, mod, onClose, onSaved }: Props) {
     }
     loadImage()
     return () => { cancelled = true }
-  }, [character, mod.folder, mod.dir, mod.meta.image])
+  }, [character, mod.folder, mod.dir, mod.meta.image, mod.previewPath])
 
   // Load data (pageUrl, imageUrl) and internal primary item from archive
   useEffect(() => {
@@ -79,15 +94,72 @@ export default function EditarMod({ character, mod, onClose, onSaved }: Props) {
         if (!cancelled && data) {
           if (data.pageUrl) setPageUrl(data.pageUrl)
           if (data.imageUrl) setImageUrl(data.imageUrl)
+          const saved: ModInfo = { title: data.title, author: data.author, description: data.description, version: data.version, files: data.files }
+          setInfo(saved)
+          setInfoLoaded(saved)
         }
         const internal = await window.api.getPrimaryInternalName(character, mod.folder)
         if (!cancelled && internal) setInternalName(internal)
-      } catch {}
+      } catch { /* unreadable data: the fields start empty */ }
     }
     load()
     return () => { cancelled = true }
   }, [character, mod.folder])
 
+  // INI summary (hash overrides, key bindings, toggle variables) parsed in the main process
+  useEffect(() => {
+    let cancelled = false
+    window.api.getModIniSummary(character, mod.folder)
+      .then((summary) => { if (!cancelled) setIni(summary) })
+      .catch(() => { if (!cancelled) setIni(null) })
+    return () => { cancelled = true }
+  }, [character, mod.folder])
+
+  // Files of the mod for the file browser; reloaded after renaming or deleting one
+  const loadFiles = useCallback(async () => {
+    try {
+      setFiles(await window.api.listModFiles(character, mod.folder))
+    } catch {
+      setFiles(null)
+    }
+  }, [character, mod.folder])
+
+  useEffect(() => { loadFiles() }, [loadFiles])
+
+  // A rename in the file browser may have changed the primary folder; saving would otherwise rename it back
+  async function handleFilesChanged() {
+    await loadFiles()
+    try { setInternalName((await window.api.getPrimaryInternalName(character, mod.folder)) || '') } catch { /* keep the name shown; the rename handler validates it */ }
+  }
+
+  useEffect(() => {
+    let cancelled = false
+    window.api.listTags()
+      .then((list) => { if (!cancelled) setTagSuggestions(list.map((t) => t.tag)) })
+      .catch(() => {})
+    return () => { cancelled = true }
+  }, [])
+
+  // Variant folders of multi-variant packs (detected and remembered for mods installed before)
+  useEffect(() => {
+    let cancelled = false
+    window.api.getModVariants(character, mod.folder)
+      .then((res) => { if (!cancelled) setVariants(res) })
+      .catch(() => {})
+    return () => { cancelled = true }
+  }, [character, mod.folder])
+
+  // Switching applies right away (folder renames), independently of "Editar"
+  async function handleVariantChange(variant: string) {
+    try {
+      setVariants(await window.api.setModVariant(character, mod.folder, variant))
+      await loadFiles()
+      await onSaved?.()
+    } catch (e) {
+      alert('No se pudo cambiar la variante: ' + (e instanceof Error ? e.message : String(e)))
+    }
+  }
+
   // Dismiss when clicking outside or pressing Esc
   useEffect(() => {
     function onDocDown(e: MouseEvent) {
@@ -102,8 +174,8 @@ export default function EditarMod({ character, mod, onClose, onSaved }: Props) {
   }, [onClose])
 
   // Fetch and preview new image from URL on Enter
-  async function fetchPreviewFromUrl() {
-    const u = imageUrl.trim()
+  async function fetchPreviewFromUrl(url = imageUrl) {
+    const u = url.trim()
     if (!u) { setImgOk(true); return }
     try {
       const data = await window.api.fetchImageDataUrl(u)
@@ -129,9 +201,17 @@ export default function EditarMod({ character, mod, onClose, onSaved }: Props) {
         pageUrl: pageUrl.trim() || undefined,
         imageUrl: imageUrl.trim() || undefined,
       })
+      // Imported page details (only when edited or imported in this session)
+      if (JSON.stringify(info) !== JSON.stringify(infoLoaded)) {
+        try { await window.api.saveModInfo(character, mod.folder, info) } catch (e) { alert('No se pudieron guardar los datos de la página: ' + (e instanceof Error ? e.message : e)) }
+      }
+      // Tags and favorite (mod.json, or data.txt inside the archive)
+      if (favorite !== !!mod.meta.favorite || JSON.stringify(tags) !== JSON.stringify(mod.meta.tags || [])) {
+        try { await window.api.setModTags(character, mod.folder, { tags, favorite }) } catch (e) { alert('No se pudieron guardar las etiquetas: ' + (e instanceof Error ? e.message : String(e))) }
+      }
       // Rename internal if changed
       if (internalName.trim()) {
-        try { await window.api.renamePrimaryInternal(character, mod.folder, internalName.trim()) } catch {}
+        try { await window.api.renamePrimaryInternal(character, mod.folder, internalName.trim()) } catch (e) { alert('No se pudo renombrar el archivo interno: ' + (e instanceof Error ? e.message : String(e))) }
       }
       // Legacy folder metadata update (if present)
       await window.api.saveModMetadata(character, mod.folder, {
@@ -141,7 +221,7 @@ export default function EditarMod({ character, mod, onClose, onSaved }: Props) {
       // If a new image file replaced the previous one, remove the old file to save space
       if (imageRel && mod.meta.image && imageRel !== mod.meta.image) {
   const oldAbs = `${mod.dir.replace(/\\/g, '/')}/${mod.meta.image}`
-        try { await window.api.deleteFile(oldAbs) } catch {}
+        try { await window.api.deleteFile(oldAbs) } catch { /* a leftover image only takes space */ }
       }
       await onSaved?.()
     } finally {
@@ -186,12 +266,31 @@ export default function EditarMod({ character, mod, onClose, onSaved }: Props) {
             <input value={internalName} onChange={(e) => setInternalName(e.target.value)} placeholder="Carpeta/archivo principal" />
           </div>
 
-          {/* File name (read-only). Using folder base name fallback. */}
+          {/* File name (read-only) */}
           <div className="field-row">
             <div className="label">Nombre del archivo</div>
             <input value={fileName} readOnly />
           </div>
 
+          <div className="field-row">
+            <div className="label">Etiquetas</div>
+            <EtiquetasMod tags={tags} suggestions={tagSuggestions} onChange={setTags} />
+          </div>
+          <label className="muted" style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <input type="checkbox" checked={favorite} onChange={(e) => setFavorite(e.target.checked)} />
+            ★ Favorito
+          </label>
+
+          {variants.variants.length >= 2 && (
+            <div className="field-row">
+              <div className="label">Variante activa</div>
+              <select value={variants.active || ''} onChange={(e) => handleVariantChange(e.target.value)}>
+                {!variants.active && <option value="" disabled>—</option>}
+                {variants.variants.map((v) => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </div>
+          )}
+
           {/* Mod URL */}
           <div className="field-row">
             <div className="label">URL del Mod</div>
@@ -202,6 +301,13 @@ export default function EditarMod({ character, mod, onClose, onSaved }: Props) {
             />
           </div>
 
+          <ImportarGameBanana
+            pageUrl={pageUrl}
+            info={info}
+            onChange={setInfo}
+            onPickImage={(url) => { setImageUrl(url); fetchPreviewFromUrl(url) }}
+          />
+
           {/* Image URL */}
           <div className="field-row">
             <div className="label">URL de Imagen</div>
@@ -218,6 +324,43 @@ export default function EditarMod({ character, mod, onClose, onSaved }: Props) {
             <div className="muted" style={{ color: '#d66', marginTop: 4 }}>No se pudo cargar la imagen desde la URL.</div>
           )}
 
+          {/* INI summary (read-only) */}
+          {ini && ini.files.length > 0 && (
+            <details className="ini-summary">
+              <summary>
+                INI: {ini.files.length} {ini.files.length === 1 ? 'archivo' : 'archivos'} · {ini.hashes.length} hashes · {ini.keys.length} teclas
+              </summary>
+              {ini.namespaces.length > 0 && <div className="muted">Namespace: {ini.namespaces.join(', ')}</div>}
+              <div className="muted">
+                Texturas: {ini.hashes.filter((h) => h.kind === 'texture').length} · Shaders: {ini.hashes.filter((h) => h.kind === 'shader').length}
+              </div>
+              {ini.keys.length > 0 && (
+                <table className="ini-table">
+                  <thead>
+                    <tr><th>Tecla</th><th>Tipo</th><th>Sección</th><th>Variables</th></tr>
+                  </thead>
+                  <tbody>
+                    {ini.keys.map((k, i) => (
+                      <tr key={k.file + '::' + k.section + '::' + i} title={k.file}>
+                        <td>{k.key}{k.back ? ` / ${k.back}` : ''}</td>
+                        <td>{k.type || 'activate'}</td>
+                        <td>{k.section}</td>
+                        <td>{k.variables.map((v) => `${v.name} = ${v.values.join(',')}`).join('; ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {ini.variables.length > 0 && (
+                <div className="muted">
+                  Variables: {ini.variables.map((v) => `${v.name}${v.initial !== undefined ? ` = ${v.initial}` : ''}${v.persist ? ' (persist)' : ''}`).join(', ')}
+                </div>
+              )}
+            </details>
+          )}
+
+          {files && <ArchivosMod character={character} modName={mod.folder} list={files} onChanged={handleFilesChanged} />}
+
           <div style={{ display: 'flex', gap: 8, marginTop: 16, justifyContent: 'flex-end' }}>
             <button className="secondary" onClick={onClose}>Cancelar</button>
             <button onClick={handleSave}>Editar</button>
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from 'react'
+
+// Asks which character a syleaf-mm:// install link belongs to when the link does not name one
+// (or names one that does not exist).
+
+type Props = {
+  characters: string[]
+  suggested?: string
+  fileUrl: string
+  onPick: (character: string) => void
+  onClose: () => void
+}
+
+export default function ElegirPersonaje({ characters, suggested, fileUrl, onPick, onClose }: Props) {
+  const modalRef = useRef<HTMLDivElement | null>(null)
+  const [character, setCharacter] = useState(characters[0] || '')
+
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      const el = e.target as HTMLElement
+      if (!modalRef.current) return
+      if (!modalRef.current.contains(el)) onClose()
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape') onClose() }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [onClose])
+
+  return (
+    <div className="overlay">
+      <div ref={modalRef} className="modal">
+        <div className="modal-header">
+          <div className="modal-title">Instalar mod desde enlace</div>
+          <button className="icon" onClick={onClose}>×</button>
+        </div>
+        <div className="modal-body">
+          <div className="muted" style={{ wordBreak: 'break-all' }}>{fileUrl}</div>
+          {suggested && <div className="muted">No existe el personaje "{suggested}".</div>}
+          {characters.length === 0 ? (
+            <div className="muted">Primero agrega un personaje.</div>
+          ) : (
+            <div className="field-row">
+              <div className="label">Personaje</div>
+              <select value={character} onChange={(e) => setCharacter(e.target.value)}>
+                {characters.map((c) => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+          )}
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            <button onClick={onClose}>Cancelar</button>
+            <button disabled={!character} onClick={() => onPick(character)}>⬇ Descargar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -25,6 +25,8 @@ export default function Eliminar({ character, onClose, onDeleted }: Props) {
     try {
       await window.api.deleteCharacter(character)
       await onDeleted?.()
+    } catch (e) {
+      alert('No se pudo eliminar el personaje: ' + (e instanceof Error ? e.message : String(e)))
     } finally {
       onClose()
     }
@@ -40,7 +42,7 @@ export default function Eliminar({ character, onClose, onDeleted }: Props) {
         <div className="modal-body">
           <div style={{ display: 'grid', gap: 10 }}>
             <div style={{ fontWeight: 600, color: '#ffacac' }}>Advertencia</div>
-            <div className="muted">Esta acción eliminará por completo:</div>
+            <div className="muted">Esta acción moverá a la papelera:</div>
             <ul style={{ margin: '0 0 0 18px', padding: 0 }}>
               <li>La carpeta del personaje y todos sus mods.</li>
               <li>La carpeta en DataBase (imagen y metadatos) de este personaje.</li>
@@ -48,7 +50,7 @@ export default function Eliminar({ character, onClose, onDeleted }: Props) {
             <div>
               Se borrará todo del personaje seleccionado: <b>{character}</b>.
             </div>
-            <div className="muted" style={{ fontSize: 12 }}>Esta acción es irreversible.</div>
+            <div className="muted" style={{ fontSize: 12 }}>Podrás restaurarlo desde la Papelera mientras no caduque.</div>
           </div>
           <div style={{ display: 'flex', gap: 8, marginTop: 16, justifyContent: 'flex-end' }}>
             <button className="secondary" onClick={onClose}>Cancelar</button>
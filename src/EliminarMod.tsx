@@ -26,6 +26,8 @@ export default function EliminarMod({ character, modName, onClose, onDeleted }:
     try {
       await window.api.deleteMod(character, modName)
       await onDeleted?.()
+    } catch (e) {
+      alert('No se pudo eliminar el mod: ' + (e instanceof Error ? e.message : String(e)))
     } finally {
       onClose()
     }
@@ -41,7 +43,7 @@ export default function EliminarMod({ character, modName, onClose, onDeleted }:
         <div className="modal-body">
           <div style={{ display: 'grid', gap: 10 }}>
             <div style={{ fontWeight: 600, color: '#ffacac' }}>Advertencia</div>
-            <div className="muted">Se eliminará únicamente este mod del personaje, incluyendo:</div>
+            <div className="muted">Se moverá a la papelera únicamente este mod del personaje, incluyendo:</div>
             <ul style={{ margin: '0 0 0 18px', padding: 0 }}>
               <li>El archivo ZIP/7z/RAR copiado en la carpeta del mod.</li>
               <li>La imagen de vista previa guardada para este mod.</li>
@@ -50,7 +52,7 @@ export default function EliminarMod({ character, modName, onClose, onDeleted }:
             <div>
               Mod a eliminar: <b>{modName}</b> (personaje <b>{character}</b>).
             </div>
-            <div className="muted" style={{ fontSize: 12 }}>Esta acción es irreversible y no borra al personaje.</div>
+            <div className="muted" style={{ fontSize: 12 }}>Puedes restaurarlo desde la Papelera. No borra al personaje.</div>
           </div>
           <div style={{ display: 'flex', gap: 8, marginTop: 16, justifyContent: 'flex-end' }}>
             <button className="secondary" onClick={onClose}>Cancelar</button>
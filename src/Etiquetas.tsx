@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+// Tag manager: every tag of the library with its mod count. Renaming onto an existing tag merges
+// both; deleting removes the tag from every mod (the mods themselves are kept).
+
+type TagCount = { tag: string; count: number }
+
+type Props = {
+  onClose: () => void
+  onChanged?: () => void | Promise<void>
+}
+
+export default function Etiquetas({ onClose, onChanged }: Props) {
+  const modalRef = useRef<HTMLDivElement | null>(null)
+  const [tags, setTags] = useState<TagCount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [names, setNames] = useState<Record<string, string>>({}) // rename drafts by tag
+
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      const el = e.target as HTMLElement
+      if (!modalRef.current || busy) return
+      if (!modalRef.current.contains(el)) onClose()
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape' && !busy) onClose() }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [onClose, busy])
+
+  const load = useCallback(async () => {
+    try {
+      setTags(await window.api.listTags())
+    } catch (e) {
+      alert('No se pudieron leer las etiquetas: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { load() }, [load])
+
+  async function run(action: () => Promise<{ changed: number; failed: string[] }>, what: string) {
+    setBusy(true)
+    try {
+      const res = await action()
+      if (res.failed.length) alert(`No se pudo ${what} en ${res.failed.length} mods:\n` + res.failed.join('\n'))
+      setNames({})
+      await load()
+      await onChanged?.()
+    } catch (e) {
+      alert(`No se pudo ${what}: ` + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function handleRename(from: string, raw: string) {
+    const to = raw.replace(/\s+/g, ' ').trim()
+    if (!to || to === from) return
+    const existing = tags.find((t) => t.tag.toLowerCase() === to.toLowerCase() && t.tag !== from)
+    if (existing && !confirm(`Ya existe "${existing.tag}". ¿Fusionar "${from}" con "${existing.tag}"?`)) {
+      setNames((prev) => ({ ...prev, [from]: from }))
+      return
+    }
+    run(() => window.api.renameTag(from, existing ? existing.tag : to), 'renombrar la etiqueta')
+  }
+
+  function handleMerge(from: string, into: string) {
+    if (!into || !confirm(`¿Fusionar "${from}" con "${into}"? Los mods con "${from}" pasarán a tener "${into}".`)) return
+    run(() => window.api.renameTag(from, into), 'fusionar las etiquetas')
+  }
+
+  function handleDelete(t: TagCount) {
+    if (!confirm(`¿Quitar la etiqueta "${t.tag}" de ${t.count} ${t.count === 1 ? 'mod' : 'mods'}?`)) return
+    run(() => window.api.deleteTag(t.tag), 'eliminar la etiqueta')
+  }
+
+  return (
+    <div className="overlay">
+      <div ref={modalRef} className="modal modal-wide">
+        <div className="modal-header">
+          <div className="modal-title">Etiquetas</div>
+          <button className="icon" onClick={onClose} disabled={busy}>×</button>
+        </div>
+        <div className="modal-body">
+          {loading && <div className="muted">Cargando etiquetas…</div>}
+          {!loading && tags.length === 0 && <div className="muted">Ningún mod tiene etiquetas. Se añaden desde "Editar" en cada mod.</div>}
+          {tags.length > 0 && (
+            <table className="ini-table tag-table">
+              <thead>
+                <tr><th>Etiqueta</th><th>Mods</th><th>Renombrar</th><th>Fusionar con</th><th></th></tr>
+              </thead>
+              <tbody>
+                {tags.map((t) => (
+                  <tr key={t.tag}>
+                    <td><span className="tag-chip">{t.tag}</span></td>
+                    <td>{t.count}</td>
+                    <td>
+                      <input
+                        value={names[t.tag] ?? t.tag}
+                        disabled={busy}
+                        onChange={(e) => setNames((prev) => ({ ...prev, [t.tag]: e.target.value }))}
+                        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur() }}
+                        onBlur={() => handleRename(t.tag, names[t.tag] ?? t.tag)}
+                      />
+                    </td>
+                    <td>
+                      <select value="" disabled={busy || tags.length < 2} onChange={(e) => handleMerge(t.tag, e.target.value)}>
+                        <option value="">—</option>
+                        {tags.filter((o) => o.tag !== t.tag).map((o) => <option key={o.tag} value={o.tag}>{o.tag}</option>)}
+                      </select>
+                    </td>
+                    <td><button className="danger" disabled={busy} onClick={() => handleDelete(t)}>Eliminar</button></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {busy && <div className="muted">Actualizando mods… (los mods en ZIP/7z/RAR se reescriben con 7-Zip)</div>}
+        </div>
+      </div>
+    </div>
+  )
+}
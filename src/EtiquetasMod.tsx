@@ -0,0 +1,56 @@
+import { useState } from 'react'
+
+// Tag chips of one mod with an input to add more (Enter or comma); suggestions are the library's tags
+
+type Props = {
+  tags: string[]
+  suggestions: string[]
+  onChange: (tags: string[]) => void
+}
+
+export default function EtiquetasMod({ tags, suggestions, onChange }: Props) {
+  const [draft, setDraft] = useState('')
+
+  function add(raw: string) {
+    const next = [...tags]
+    for (const part of raw.split(',')) {
+      const tag = part.replace(/\s+/g, ' ').trim()
+      if (!tag) continue
+      // Reuse the library's spelling of an existing tag
+      const known = suggestions.find((s) => s.toLowerCase() === tag.toLowerCase())
+      if (!next.some((t) => t.toLowerCase() === tag.toLowerCase())) next.push(known || tag)
+    }
+    setDraft('')
+    if (next.length !== tags.length) onChange(next)
+  }
+
+  return (
+    <div className="tag-editor">
+      {tags.map((t) => (
+        <span key={t} className="tag-chip">
+          {t}
+          <button type="button" className="tag-remove" title="Quitar etiqueta" onClick={() => onChange(tags.filter((x) => x !== t))}>×</button>
+        </span>
+      ))}
+      <input
+        list="mod-tag-suggestions"
+        value={draft}
+        placeholder={tags.length ? 'Añadir…' : 'outfit, recolor, NSFW…'}
+        onChange={(e) => {
+          // Picking a suggestion from the list (no typing involved) adds it right away
+          const inputType = (e.nativeEvent as InputEvent).inputType
+          if ((!inputType || inputType === 'insertReplacementText') && suggestions.includes(e.target.value)) add(e.target.value)
+          else setDraft(e.target.value)
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); add(draft) }
+          if (e.key === 'Backspace' && !draft && tags.length) onChange(tags.slice(0, -1))
+        }}
+        onBlur={() => add(draft)}
+      />
+      <datalist id="mod-tag-suggestions">
+        {suggestions.filter((s) => !tags.some((t) => t.toLowerCase() === s.toLowerCase())).map((s) => <option key={s} value={s} />)}
+      </datalist>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react'
+
+// Import wizard for an unsorted XXMI/ZZMI Mods folder: scan it, review the proposed character of
+// every mod folder (by INI hashes or by name) and move/copy them into modsRoot/<Personaje>/<Mod>.
+
+type Suggestion = {
+  character: string | null
+  reason: 'hash' | 'name' | null
+  score: number
+  candidates: Array<{ character: string; votes: number }>
+}
+
+type Candidate = { path: string; name: string; enabled: boolean; iniFiles: number; suggestion: Suggestion }
+
+type Report = {
+  imported: Array<{ path: string; character: string; modName: string }>
+  failed: Array<{ path: string; error: string }>
+  unassigned: string[]
+}
+
+type Props = {
+  onClose: () => void
+  onImported?: () => void | Promise<void>
+}
+
+function reasonLabel(s: Suggestion) {
+  if (s.reason === 'hash') return `Hashes (${s.score})`
+  if (s.reason === 'name') return 'Nombre'
+  return '—'
+}
+
+export default function ImportarCarpeta({ onClose, onImported }: Props) {
+  const modalRef = useRef<HTMLDivElement | null>(null)
+  const [sourceDir, setSourceDir] = useState('')
+  const [characters, setCharacters] = useState<string[]>([])
+  const [items, setItems] = useState<Candidate[]>([])
+  const [assigned, setAssigned] = useState<Record<string, string>>({})
+  const [mode, setMode] = useState<'move' | 'copy'>('move')
+  const [scanning, setScanning] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [report, setReport] = useState<Report | null>(null)
+  const busy = scanning || applying
+
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      const el = e.target as HTMLElement
+      if (!modalRef.current || busy) return
+      if (!modalRef.current.contains(el)) onClose()
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape' && !busy) onClose() }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [onClose, busy])
+
+  async function handlePick() {
+    const folder = await window.api.selectFolder()
+    if (!folder) return
+    setSourceDir(folder)
+    setReport(null)
+    setScanning(true)
+    try {
+      const res = await window.api.scanImportFolder(folder)
+      setCharacters(res.characters)
+      setItems(res.items)
+      const map: Record<string, string> = {}
+      for (const it of res.items) map[it.path] = it.suggestion.character || ''
+      setAssigned(map)
+    } catch (e) {
+      alert('No se pudo analizar la carpeta: ' + (e instanceof Error ? e.message : String(e)))
+      setItems([])
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  async function handleApply() {
+    const toImport = items.filter((it) => (assigned[it.path] || '').trim())
+    const verb = mode === 'move' ? 'Mover' : 'Copiar'
+    if (!confirm(`${verb} ${toImport.length} mods a la carpeta de mods?`)) return
+    setApplying(true)
+    try {
+      const res = await window.api.applyImport(sourceDir, items.map((it) => ({ path: it.path, character: (assigned[it.path] || '').trim() })), mode)
+      setReport(res)
+      const done = new Set(res.imported.map((x) => x.path))
+      setItems((prev) => prev.filter((it) => !done.has(it.path)))
+      await onImported?.()
+    } catch (e) {
+      alert('No se pudo importar: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const assignedCount = items.filter((it) => (assigned[it.path] || '').trim()).length
+  const baseName = (p: string) => p.split(/[/\\]/).pop() || p
+
+  return (
+    <div className="overlay">
+      <div ref={modalRef} className="modal modal-wide">
+        <div className="modal-header">
+          <div className="modal-title">Importar carpeta de mods</div>
+          <button className="icon" onClick={onClose} disabled={busy}>×</button>
+        </div>
+        <div className="modal-body">
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+            <button disabled={busy} onClick={handlePick}>Elegir carpeta…</button>
+            <span className="muted" style={{ wordBreak: 'break-all' }}>{sourceDir || 'Carpeta Mods de XXMI/ZZMI con un mod por subcarpeta'}</span>
+          </div>
+          {scanning && <div className="muted">Analizando mods…</div>}
+          {!scanning && items.length > 0 && (
+            <>
+              <datalist id="import-characters">
+                {characters.map((c) => <option key={c} value={c} />)}
+              </datalist>
+              <table className="ini-table import-table">
+                <thead>
+                  <tr><th>Mod</th><th>INI</th><th>Detectado por</th><th>Personaje</th></tr>
+                </thead>
+                <tbody>
+                  {items.map((it) => (
+                    <tr key={it.path} className={(assigned[it.path] || '').trim() ? undefined : 'unassigned'}>
+                      <td title={it.path}>{it.name}{it.enabled ? '' : ' (desactivado)'}</td>
+                      <td>{it.iniFiles}</td>
+                      <td title={it.suggestion.candidates.map((c) => `${c.character}: ${c.votes}`).join('\n')}>{reasonLabel(it.suggestion)}</td>
+                      <td>
+                        <input
+                          list="import-characters"
+                          value={assigned[it.path] || ''}
+                          placeholder="Sin asignar"
+                          onChange={(e) => setAssigned((prev) => ({ ...prev, [it.path]: e.target.value }))}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+                <label className="muted" style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                  <input type="radio" checked={mode === 'move'} onChange={() => setMode('move')} /> Mover
+                </label>
+                <label className="muted" style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                  <input type="radio" checked={mode === 'copy'} onChange={() => setMode('copy')} /> Copiar (conservar la carpeta original)
+                </label>
+                <div className="spacer" style={{ flex: 1 }} />
+                <span className="muted">{assignedCount} de {items.length} asignados</span>
+                <button disabled={busy || assignedCount === 0} onClick={handleApply}>{applying ? 'Importando…' : 'Importar'}</button>
+              </div>
+            </>
+          )}
+          {!scanning && sourceDir && items.length === 0 && !report && <div className="muted">No se encontraron carpetas de mods.</div>}
+          {report && (
+            <div className="import-report">
+              <div>{report.imported.length} mods importados.</div>
+              {report.failed.length > 0 && (
+                <details open>
+                  <summary>{report.failed.length} con error</summary>
+                  {report.failed.map((f) => <div key={f.path} className="muted">{baseName(f.path)}: {f.error}</div>)}
+                </details>
+              )}
+              {report.unassigned.length > 0 && (
+                <details>
+                  <summary>{report.unassigned.length} sin asignar (no se movieron)</summary>
+                  {report.unassigned.map((p) => <div key={p} className="muted">{baseName(p)}</div>)}
+                </details>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react'
+
+// Mod details imported from a GameBanana page URL, shared by AgregarMod and EditarMod.
+// The parent owns the values (saved with saveModInfo) and the selected preview image.
+
+type RemoteFile = { id: number; name: string; size: number; date: number; downloadUrl: string; version?: string }
+
+export type ModInfo = {
+  title?: string
+  author?: string
+  description?: string
+  version?: string
+  files?: RemoteFile[]
+}
+
+type Props = {
+  pageUrl: string
+  info: ModInfo
+  onChange: (info: ModInfo) => void
+  onPickImage: (url: string) => void
+}
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB'
+  if (bytes >= 1024) return (bytes / 1024).toFixed(0) + ' KB'
+  return bytes + ' B'
+}
+
+export default function ImportarGameBanana({ pageUrl, info, onChange, onPickImage }: Props) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [images, setImages] = useState<Array<{ url: string; thumb: string }>>([])
+  const [picked, setPicked] = useState('')
+
+  async function handleImport() {
+    setLoading(true)
+    setError('')
+    try {
+      const mod = await window.api.fetchGameBananaMod(pageUrl.trim())
+      onChange({ title: mod.name, author: mod.author, description: mod.description, version: mod.version, files: mod.files })
+      setImages(mod.images)
+      if (mod.images.length > 0) {
+        setPicked(mod.images[0].url)
+        onPickImage(mod.images[0].url)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const hasInfo = !!(info.title || info.author || info.description || info.version || info.files?.length)
+
+  return (
+    <div className="gb-import">
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <button type="button" disabled={loading || !/gamebanana\.com\/mods\//i.test(pageUrl)} onClick={handleImport}>
+          {loading ? 'Importando…' : 'Importar datos de GameBanana'}
+        </button>
+        {error && <span className="muted" style={{ color: '#d66' }}>{error}</span>}
+      </div>
+      {images.length > 0 && (
+        <div className="gb-images">
+          {images.map((img) => (
+            <img
+              key={img.url}
+              src={img.thumb}
+              className={img.url === picked ? 'selected' : undefined}
+              onClick={() => { setPicked(img.url); onPickImage(img.url) }}
+              title="Usar como vista previa"
+            />
+          ))}
+        </div>
+      )}
+      {hasInfo && (
+        <>
+          <div className="field-row">
+            <div className="label">Título</div>
+            <input value={info.title || ''} onChange={(e) => onChange({ ...info, title: e.target.value })} />
+          </div>
+          <div className="field-row">
+            <div className="label">Autor</div>
+            <input value={info.author || ''} onChange={(e) => onChange({ ...info, author: e.target.value })} />
+          </div>
+          <div className="field-row">
+            <div className="label">Versión</div>
+            <input value={info.version || ''} onChange={(e) => onChange({ ...info, version: e.target.value })} />
+          </div>
+          <div className="field-row">
+            <div className="label">Descripción</div>
+            <textarea rows={4} value={info.description || ''} onChange={(e) => onChange({ ...info, description: e.target.value })} />
+          </div>
+          {info.files && info.files.length > 0 && (
+            <div className="gb-files">
+              <div className="label muted">Archivos</div>
+              {info.files.map((f) => (
+                <div key={f.id || f.name} className="muted">
+                  {f.name} · {formatSize(f.size)}{f.date ? ' · ' + new Date(f.date).toLocaleDateString() : ''}{f.version ? ' · v' + f.version : ''}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from 'react'
+
+// Batch install of files/folders dropped on a character card or on the mods panel.
+// Each item shows the internal name it would install; they are installed one after another
+// (archives like "Agregar Mod", folders are copied) and every item reports its own result.
+
+type Dropped = { path: string; name: string; kind: 'archive' | 'folder' | 'unsupported'; internalName: string | null }
+
+type Item = Dropped & {
+  status: 'pending' | 'installing' | 'done' | 'error' | 'skipped'
+  modName?: string
+  error?: string
+}
+
+type Props = {
+  character: string
+  paths: string[]
+  onClose: () => void
+  onInstalled?: () => void | Promise<void>
+}
+
+export default function InstalarLote({ character, paths, onClose, onInstalled }: Props) {
+  const modalRef = useRef<HTMLDivElement | null>(null)
+  const [items, setItems] = useState<Item[]>([])
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      const el = e.target as HTMLElement
+      if (!modalRef.current || running) return
+      if (!modalRef.current.contains(el)) onClose()
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape' && !running) onClose() }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [onClose, running])
+
+  useEffect(() => {
+    let cancelled = false
+    async function inspect() {
+      setLoading(true)
+      try {
+        const list = await window.api.inspectDropped(paths)
+        if (!cancelled) setItems(list.map((d) => ({ ...d, status: d.kind === 'unsupported' ? 'skipped' : 'pending', error: d.kind === 'unsupported' ? 'No es un ZIP/7z/RAR ni una carpeta' : undefined })))
+      } catch (e) {
+        if (!cancelled) alert('No se pudieron leer los archivos: ' + (e instanceof Error ? e.message : String(e)))
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    inspect()
+    return () => { cancelled = true }
+  }, [paths])
+
+  function update(path: string, patch: Partial<Item>) {
+    setItems((prev) => prev.map((it) => (it.path === path ? { ...it, ...patch } : it)))
+  }
+
+  async function handleInstall() {
+    setRunning(true)
+    let installed = 0
+    for (const it of items) {
+      if (it.status !== 'pending') continue
+      update(it.path, { status: 'installing' })
+      try {
+        const res = it.kind === 'folder'
+          ? await window.api.installModFromFolder(character, it.path)
+          : await window.api.createModFromArchive(character, it.path)
+        update(it.path, { status: 'done', modName: res.modName })
+        installed++
+      } catch (e) {
+        update(it.path, { status: 'error', error: e instanceof Error ? e.message : String(e) })
+      }
+    }
+    setRunning(false)
+    if (installed > 0) await onInstalled?.()
+  }
+
+  const pending = items.filter((it) => it.status === 'pending').length
+  const done = items.filter((it) => it.status === 'done').length
+  const failed = items.filter((it) => it.status === 'error').length
+
+  function statusLabel(it: Item) {
+    switch (it.status) {
+      case 'pending': return 'Pendiente'
+      case 'installing': return 'Instalando…'
+      case 'done': return '✓ ' + (it.modName || '')
+      case 'error': return '✗ ' + (it.error || 'Error')
+      case 'skipped': return 'Omitido · ' + (it.error || '')
+    }
+  }
+
+  return (
+    <div className="overlay">
+      <div ref={modalRef} className="modal modal-wide">
+        <div className="modal-header">
+          <div className="modal-title">Instalar {paths.length === 1 ? '1 elemento' : `${paths.length} elementos`} en {character}</div>
+          <button className="icon" onClick={onClose} disabled={running}>×</button>
+        </div>
+        <div className="modal-body">
+          {loading && <div className="muted">Leyendo archivos…</div>}
+          {items.map((it) => (
+            <div key={it.path} className={`trash-row batch-row ${it.status}`}>
+              <div className="trash-info" title={it.path}>
+                <div className="mod-name">{it.kind === 'folder' ? '📁 ' : ''}{it.name}</div>
+                <div className="muted">Nombre interno: {it.internalName || '—'}</div>
+              </div>
+              <div className="muted batch-status">{statusLabel(it)}</div>
+              {it.status === 'pending' && !running ? (
+                <button className="danger" title="Quitar de la cola" onClick={() => setItems((prev) => prev.filter((x) => x.path !== it.path))}>×</button>
+              ) : <span />}
+            </div>
+          ))}
+          {!loading && (done > 0 || failed > 0) && (
+            <div className="muted">{done} instalados{failed ? `, ${failed} con error` : ''}.</div>
+          )}
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            <button onClick={onClose} disabled={running}>{pending ? 'Cancelar' : 'Cerrar'}</button>
+            <button disabled={loading || running || pending === 0} onClick={handleInstall}>
+              {running ? 'Instalando…' : `Instalar (${pending})`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
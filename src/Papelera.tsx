@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from 'react'
+
+// Recycle bin: mods and characters deleted from the app are kept here until restored,
+// purged by hand or expired by the retention policy (Configuración)
+
+type TrashItem = {
+  id: string
+  kind: 'mod' | 'character'
+  character: string
+  name: string
+  deletedAt: string
+  size: number
+  entries: Array<{ original: string; stored: string }>
+}
+
+type Props = {
+  onClose: () => void
+  onRestored?: () => void | Promise<void>
+}
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 * 1024 * 1024) return (bytes / (1024 * 1024 * 1024)).toFixed(1) + ' GB'
+  if (bytes >= 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB'
+  if (bytes >= 1024) return (bytes / 1024).toFixed(0) + ' KB'
+  return bytes + ' B'
+}
+
+export default function Papelera({ onClose, onRestored }: Props) {
+  const modalRef = useRef<HTMLDivElement | null>(null)
+  const [items, setItems] = useState<TrashItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      const el = e.target as HTMLElement
+      if (!modalRef.current) return
+      if (!modalRef.current.contains(el)) onClose()
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape') onClose() }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [onClose])
+
+  async function reload() {
+    try {
+      setItems(await window.api.listTrash())
+    } catch {
+      setItems([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { reload() }, [])
+
+  async function handleRestore(item: TrashItem) {
+    setBusy(true)
+    try {
+      await window.api.restoreTrashItem(item.id)
+      await onRestored?.()
+    } catch (e) {
+      alert('No se pudo restaurar: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+      await reload()
+    }
+  }
+
+  async function handlePurge(item: TrashItem) {
+    if (!confirm(`¿Eliminar definitivamente "${item.name}"?`)) return
+    setBusy(true)
+    try {
+      await window.api.purgeTrashItem(item.id)
+    } catch (e) {
+      alert('No se pudo eliminar: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+      await reload()
+    }
+  }
+
+  async function handleEmpty() {
+    if (!confirm('¿Vaciar la papelera? Esta acción es irreversible.')) return
+    setBusy(true)
+    try {
+      await window.api.emptyTrash()
+    } catch (e) {
+      alert('No se pudo vaciar la papelera: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+      await reload()
+    }
+  }
+
+  const total = items.reduce((acc, it) => acc + (it.size || 0), 0)
+
+  return (
+    <div className="overlay">
+      <div ref={modalRef} className="modal">
+        <div className="modal-header">
+          <div className="modal-title">Papelera</div>
+          <button className="icon" onClick={onClose}>×</button>
+        </div>
+        <div className="modal-body">
+          {loading && <div className="muted">Cargando…</div>}
+          {!loading && items.length === 0 && <div className="muted">La papelera está vacía.</div>}
+          {items.map((it) => (
+            <div key={it.id} className="trash-row">
+              <div className="trash-info">
+                <div className="mod-name">{it.name}</div>
+                <div className="muted">
+                  {it.kind === 'character' ? 'Personaje' : `Mod de ${it.character}`} · {new Date(it.deletedAt).toLocaleString()} · {formatSize(it.size)}
+                </div>
+              </div>
+              <button disabled={busy} onClick={() => handleRestore(it)}>Restaurar</button>
+              <button className="danger" disabled={busy} onClick={() => handlePurge(it)}>Eliminar</button>
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center' }}>
+            <div className="muted">Total: {formatSize(total)}</div>
+            <div style={{ flex: 1 }} />
+            <button className="danger" disabled={busy || items.length === 0} onClick={handleEmpty}>Vaciar papelera</button>
+            <button className="secondary" onClick={onClose}>Cerrar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react'
+
+// Profile switcher (header dropdown). A profile is a named snapshot of the enabled mods of every
+// character; applying it only toggles the mods whose state differs.
+
+type ProfileSummary = { name: string; createdAt: string; updatedAt: string; enabledCount: number }
+
+type Props = {
+  active: string | null
+  profiles: ProfileSummary[]
+  onChanged: () => Promise<void> | void
+  onClose: () => void
+}
+
+export default function Perfiles({ active, profiles, onChanged, onClose }: Props) {
+  const ref = useRef<HTMLDivElement | null>(null)
+  const [newName, setNewName] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  // Close on click outside
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      if (!ref.current) return
+      if (!ref.current.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('mousedown', onDocDown)
+    return () => document.removeEventListener('mousedown', onDocDown)
+  }, [onClose])
+
+  async function handleApply(name: string) {
+    setBusy(true)
+    try {
+      const res = await window.api.applyProfile(name)
+      await onChanged()
+      const lines = [`Perfil "${name}" aplicado: ${res.enabled.length} activados, ${res.disabled.length} desactivados.`]
+      if (res.missing.length) lines.push('', 'No encontrados:', ...res.missing)
+      if (res.skipped.length) lines.push('', 'Omitidos (ya existe otro con el mismo nombre):', ...res.skipped)
+      if (res.limited.length) lines.push('', 'Sin activar (el personaje solo admite un mod activo):', ...res.limited)
+      alert(lines.join('\n'))
+      onClose()
+    } catch (e) {
+      alert('No se pudo aplicar el perfil: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleSave(name: string) {
+    const clean = name.trim()
+    if (!clean) return
+    const exists = profiles.some((p) => p.name.toLowerCase() === clean.toLowerCase())
+    if (exists && !confirm(`¿Sobrescribir el perfil "${clean}" con los mods activos actuales?`)) return
+    setBusy(true)
+    try {
+      await window.api.saveProfile(clean)
+      setNewName('')
+      await onChanged()
+    } catch (e) {
+      alert('No se pudo guardar el perfil: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleDelete(name: string) {
+    if (!confirm(`¿Eliminar el perfil "${name}"? Los mods no se modifican.`)) return
+    setBusy(true)
+    try {
+      await window.api.deleteProfile(name)
+    } catch (e) {
+      alert('No se pudo eliminar el perfil: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+    }
+    await onChanged()
+  }
+
+  return (
+    <div ref={ref} className="update-panel profile-panel">
+      {profiles.length === 0 && <div className="muted">Sin perfiles guardados.</div>}
+      {profiles.map((p) => (
+        <div key={p.name} className="profile-row">
+          <div className="trash-info" title={`Actualizado: ${new Date(p.updatedAt).toLocaleString()}`}>
+            <div className="mod-name">{p.name === active ? '● ' : ''}{p.name}</div>
+            <div className="muted">{p.enabledCount} mods activos</div>
+          </div>
+          <button disabled={busy} onClick={() => handleApply(p.name)}>Aplicar</button>
+          <button disabled={busy} onClick={() => handleSave(p.name)} title="Guardar los mods activos actuales en este perfil">Sobrescribir</button>
+          <button className="danger" disabled={busy} onClick={() => handleDelete(p.name)} title="Eliminar perfil">×</button>
+        </div>
+      ))}
+      <div className="profile-row">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(newName) }}
+          placeholder="Nombre del perfil nuevo"
+        />
+        <button disabled={busy || !newName.trim()} onClick={() => handleSave(newName)}>Guardar actual</button>
+      </div>
+    </div>
+  )
+}
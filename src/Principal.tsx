@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState, type DragEvent } from 'react'
 import './Principal.css'
 import Actualizar from './Actualizar'
 import Configuracion from './Configuracion'
@@ -8,6 +8,18 @@ import Eliminar from './Eliminar'
 import AgregarMod from './AgregarMod'
 import EliminarMod from './EliminarMod'
 import EditarMod from './EditarMod'
+import Papelera from './Papelera'
+import ReporteConflictos from './ReporteConflictos'
+import Teclas from './Teclas'
+import Perfiles from './Perfiles'
+import Aleatorio from './Aleatorio'
+import Descargas, { type DownloadItem } from './Descargas'
+import AgregarDesdeUrl from './AgregarDesdeUrl'
+import ElegirPersonaje from './ElegirPersonaje'
+import InstalarLote from './InstalarLote'
+import ImportarCarpeta from './ImportarCarpeta'
+import BuscarMods from './BuscarMods'
+import Etiquetas from './Etiquetas'
 
 type ModMeta = {
   name: string
@@ -18,6 +30,10 @@ type ModMeta = {
   updateUrl?: string
   image?: string
   enabled?: boolean
+  favorite?: boolean
+  tags?: string[]
+  variants?: string[]
+  activeVariant?: string
   createdAt?: string
   updatedAt?: string
 }
@@ -27,10 +43,21 @@ type ModItem = {
   dir: string
   meta: ModMeta
   archive?: string | null
+  previewPath?: string | null
+  ini?: { files: number; hashes: number; keys: string[]; namespaces: string[] } | null
 }
 
-type Settings = { modsRoot?: string; imagesRoot?: string }
+type HashConflict = { hash: string; matchFirstIndex?: string; mods: Array<{ mod: string; file: string; section: string }> }
+type ModConflictInfo = { others: string[]; hashes: string[] }
+type UpdateInfo = { status: string; latest?: { name: string; date: number }; remoteVersion?: string; message?: string; checkedAt: string }
+
+type ProfileSummary = { name: string; createdAt: string; updatedAt: string; enabledCount: number }
+
+type Settings = { modsRoot?: string; imagesRoot?: string; singleActiveCharacters?: string[] }
 type CharacterItem = { name: string; imagePath?: string }
+type InstallLink = { url: string; page?: string; character?: string }
+// Archive waiting for the AgregarMod modal; downloadId/character/pageUrl come from syleaf-mm:// links
+type PendingMod = { archivePath: string; archiveFileName: string; character?: string; pageUrl?: string; downloadId?: string }
 type CropMeta = { x: number; y: number; width: number; height: number; originalWidth: number; originalHeight: number; zoom?: number }
 
 function Principal() {
@@ -42,10 +69,22 @@ function Principal() {
   const [modImgSrcs, setModImgSrcs] = useState<Record<string, string>>({})
   const [modInternalNames, setModInternalNames] = useState<Record<string, string>>({})
   const [modPageUrls, setModPageUrls] = useState<Record<string, string>>({})
+  const [modConflicts, setModConflicts] = useState<Record<string, ModConflictInfo>>({})
+  const [modUpdates, setModUpdates] = useState<Record<string, UpdateInfo>>({})
   const [charImgSrcs, setCharImgSrcs] = useState<Record<string, string>>({})
   const [charCrops, setCharCrops] = useState<Record<string, CropMeta | undefined>>({})
   const [showUpdatePanel, setShowUpdatePanel] = useState(false)
   const [showConfig, setShowConfig] = useState(false)
+  const [showPapelera, setShowPapelera] = useState(false)
+  const [showConflictReport, setShowConflictReport] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showTeclas, setShowTeclas] = useState(false)
+  const [showProfiles, setShowProfiles] = useState(false)
+  const [showAleatorio, setShowAleatorio] = useState(false)
+  const [showDownloads, setShowDownloads] = useState(false)
+  const [showAgregarUrl, setShowAgregarUrl] = useState(false)
+  const [downloads, setDownloads] = useState<DownloadItem[]>([])
+  const [profiles, setProfiles] = useState<{ active: string | null; profiles: ProfileSummary[] }>({ active: null, profiles: [] })
   const [showAgregar, setShowAgregar] = useState(false)
   const [showEditar, setShowEditar] = useState(false)
   const [showEliminar, setShowEliminar] = useState(false)
@@ -54,11 +93,27 @@ function Principal() {
   const [showEditarMod, setShowEditarMod] = useState(false)
   const [modToEdit, setModToEdit] = useState<ModItem | null>(null)
   const [modToDelete, setModToDelete] = useState<string>('')
-  const [pendingMod, setPendingMod] = useState<{ archivePath: string; archiveFileName: string } | null>(null)
+  const [pendingMod, setPendingMod] = useState<PendingMod | null>(null)
+  const [installLink, setInstallLink] = useState<InstallLink | null>(null)
+  const [batchInstall, setBatchInstall] = useState<{ character: string; paths: string[] } | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null) // character name under the dragged files
+  // Mods panel filter: '' (all), 'fav' (favorites) or 'tag:<name>'
+  const [tagFilter, setTagFilter] = useState('')
+  const [showEtiquetas, setShowEtiquetas] = useState(false)
+  // Mod card picked in the global search; scrolled into view once its character's mods are shown
+  const [highlight, setHighlight] = useState<{ character: string; folder: string } | null>(null)
+  // Downloads started from install links: they open AgregarMod instead of installing directly
+  const linkDownloadsRef = useRef<Map<string, { character: string; pageUrl?: string }>>(new Map())
+  // Last list received from the download queue: a link download may finish before addDownload returns its id
+  const downloadsRef = useRef<DownloadItem[]>([])
   const [previewSrc, setPreviewSrc] = useState<string>('')
   const [showPreview, setShowPreview] = useState(false)
   const readyRef = useRef(false)
   const hasRoot = useMemo(() => !!settings.modsRoot, [settings])
+  const singleActive = useMemo(
+    () => !!selectedChar && (settings.singleActiveCharacters || []).some((c) => c.toLowerCase() === selectedChar.toLowerCase()),
+    [settings, selectedChar]
+  )
   // In-memory per-character cache (no files, no extra processes)
   type CacheEntry = {
     mods: ModItem[]
@@ -103,8 +158,17 @@ function Principal() {
   useEffect(() => {
     if (!hasRoot) return
     refreshCharacters()
+    refreshProfiles()
   }, [hasRoot])
 
+  async function refreshProfiles() {
+    try {
+      setProfiles(await window.api.listProfiles())
+    } catch (e) {
+      alert('No se pudieron leer los perfiles: ' + (e instanceof Error ? e.message : String(e)))
+    }
+  }
+
   useEffect(() => {
     if (!selectedChar || !hasRoot) return
     // If we have cache for this character, hydrate immediately to avoid blank flicker
@@ -117,6 +181,8 @@ function Principal() {
       setModPageUrls({})
       setIsLoadingMods(true)
     }
+    setModConflicts({})
+    setModUpdates({})
     // Guard against race conditions: capture a load identifier
     const loadId = Date.now()
     ;(async () => {
@@ -124,21 +190,21 @@ function Principal() {
     })()
   }, [selectedChar, hasRoot])
 
+  // Character thumbnails are served by the modimg:// protocol (avoids file:// restrictions in dev server).
+  // Request a bit more than the card size so zoomed crops stay sharp.
+  function buildCharImgSrcs(list: CharacterItem[]) {
+    const map: Record<string, string> = {}
+    for (const c of list) { if (c.imagePath) map[c.name] = window.api.modImageUrl(c.imagePath, CHAR_THUMB_WIDTH) }
+    return map
+  }
+
   async function refreshCharacters() {
     const list = await window.api.listCharactersWithImages()
     setCharacters(list)
     if (list.length && !selectedChar) {
       setSelectedChar(list[0].name)
     }
-    // Load data URLs for images to avoid file:// restrictions in dev server
-    const entries = await Promise.all(list.map(async (c) => {
-      if (!c.imagePath) return [c.name, ''] as const
-      const dataUrl = await window.api.readImageAsDataUrl(c.imagePath)
-      return [c.name, dataUrl || ''] as const
-    }))
-    const map: Record<string, string> = {}
-    for (const [name, src] of entries) { if (src) map[name] = src }
-    setCharImgSrcs(map)
+    setCharImgSrcs(buildCharImgSrcs(list))
 
     // Load crop metadata per character
     const cropEntries = await Promise.all(list.map(async (c) => {
@@ -157,93 +223,45 @@ function Principal() {
   const latestLoadRef = useRef<number>(0)
   async function refreshMods(characterFolder: string, loadId?: number) {
     if (loadId) latestLoadRef.current = loadId
-    const list = await window.api.listMods(characterFolder)
+    const list = await window.api.listModsDetailed(characterFolder)
     // If another load started after this one, abort applying results
     if (loadId && loadId !== latestLoadRef.current) return
     // active mods first
-    list.sort((a: any, b: any) => {
+    list.sort((a, b) => {
       const ae = a?.meta?.enabled ? 1 : 0
       const be = b?.meta?.enabled ? 1 : 0
       if (ae !== be) return be - ae
       return (a.folder || '').localeCompare(b.folder || '', undefined, { sensitivity: 'base' })
     })
     setMods(list)
-    // Incremental loading with limited concurrency to reduce I/O spikes
-    const CONCURRENCY = 4
-    // Local maps so we can write cache at the end, while updating UI progressively
-    const imgMap: Record<string, string> = {}
+    // Internal names and page URLs come from the library index in the same call
     const namesMap: Record<string, string> = {}
     const urlsMap: Record<string, string> = {}
-
-    // Prime state with empty maps (or keep existing if we had cache)
-    // We won't clear existing maps here to avoid flicker; we'll merge updates progressively
-
-    const tasks = list.map((m) => async () => {
+    for (const m of list) {
       const key = m.dir + '::' + m.folder
-      if (loadId && loadId !== latestLoadRef.current) return
-      // 1) Preview image
-      try {
-        let dataUrl = ''
-        if (!m.meta.image) {
-          dataUrl = (await window.api.getModPreviewDataUrl(characterFolder, m.folder)) || ''
-        } else {
-          const abs = `${m.dir.replace(/\\/g, '/')}/${m.meta.image}`
-          dataUrl = (await window.api.readImageAsDataUrl(abs)) || ''
-        }
-        if (dataUrl) {
-          imgMap[key] = dataUrl
-          if (!loadId || loadId === latestLoadRef.current) {
-            setModImgSrcs((prev) => (prev[key] ? prev : { ...prev, [key]: dataUrl }))
-          }
-        }
-      } catch {}
-      if (loadId && loadId !== latestLoadRef.current) return
-      // 2) Internal name
-      try {
-        const n = (await window.api.getPrimaryInternalName(characterFolder, m.folder)) || ''
-        if (n) {
-          namesMap[key] = n
-          if (!loadId || loadId === latestLoadRef.current) {
-            setModInternalNames((prev) => (prev[key] ? prev : { ...prev, [key]: n }))
-          }
-        }
-      } catch {}
-      if (loadId && loadId !== latestLoadRef.current) return
-      // 3) Page URL
-      try {
-        const d = await window.api.getModData(characterFolder, m.folder)
-        const url = d?.pageUrl || ''
-        if (url) {
-          urlsMap[key] = url
-          if (!loadId || loadId === latestLoadRef.current) {
-            setModPageUrls((prev) => (prev[key] ? prev : { ...prev, [key]: url }))
-          }
-        }
-      } catch {}
-    })
-
-    async function runLimited(fns: Array<() => Promise<void>>, limit: number) {
-      let idx = 0
-      const workers = Array(Math.min(limit, fns.length)).fill(0).map(async () => {
-        while (idx < fns.length) {
-          const cur = idx++
-          await fns[cur]()
-        }
-      })
-      await Promise.all(workers)
+      if (m.internalName) namesMap[key] = m.internalName
+      if (m.pageUrl) urlsMap[key] = m.pageUrl
     }
-
-    await runLimited(tasks, CONCURRENCY)
-    if (loadId && loadId !== latestLoadRef.current) return
+    setModInternalNames(namesMap)
+    setModPageUrls(urlsMap)
+    // Previews are already on disk (no 7-Zip here); the grid only loads downscaled thumbnails
+    const imgMap: Record<string, string> = {}
+    for (const m of list) {
+      if (m.previewPath) imgMap[m.dir + '::' + m.folder] = window.api.modImageUrl(m.previewPath, MOD_THUMB_WIDTH)
+    }
+    setModImgSrcs(imgMap)
 
     // Final cache write-through with full maps
     writeCache(characterFolder, {
       mods: list,
-      modImgSrcs: { ...modImgSrcs, ...imgMap },
-      modInternalNames: { ...modInternalNames, ...namesMap },
-      modPageUrls: { ...modPageUrls, ...urlsMap },
+      modImgSrcs: imgMap,
+      modInternalNames: namesMap,
+      modPageUrls: urlsMap,
     })
     if (!loadId || loadId === latestLoadRef.current) setIsLoadingMods(false)
+    // Conflicts need the INI summaries (cached in the library index); load them after the grid
+    loadConflicts(characterFolder, loadId)
+    loadUpdateStatus(characterFolder, loadId)
 
     if (!readyRef.current) {
       try { window.api.notifyReady() } catch {}
@@ -251,6 +269,31 @@ function Principal() {
     }
   }
 
+  // Group the shared hashes per mod: which other enabled mods it collides with and on what
+  async function loadConflicts(characterFolder: string, loadId?: number) {
+    let list: HashConflict[] = []
+    try { list = await window.api.getModConflicts(characterFolder) } catch { /* the cards just show no conflict badges */ }
+    if (loadId && loadId !== latestLoadRef.current) return
+    const map: Record<string, ModConflictInfo> = {}
+    for (const c of list) {
+      const label = c.matchFirstIndex ? `${c.hash} (match_first_index ${c.matchFirstIndex})` : c.hash
+      for (const m of c.mods) {
+        const info = map[m.mod] || (map[m.mod] = { others: [], hashes: [] })
+        for (const o of c.mods) if (o.mod !== m.mod && !info.others.includes(o.mod)) info.others.push(o.mod)
+        if (!info.hashes.includes(label)) info.hashes.push(label)
+      }
+    }
+    setModConflicts(map)
+  }
+
+  // Last update check results (no network here; "Buscar actualizaciones" refreshes them)
+  async function loadUpdateStatus(characterFolder: string, loadId?: number) {
+    let status: Record<string, UpdateInfo> = {}
+    try { status = await window.api.getUpdateStatus(characterFolder) } catch { /* no badges until the next check */ }
+    if (loadId && loadId !== latestLoadRef.current) return
+    setModUpdates(status)
+  }
+
   async function refreshAll() {
     const chars = await window.api.listCharactersWithImages()
     setCharacters(chars)
@@ -259,15 +302,8 @@ function Principal() {
     for (const key of Array.from(cacheRef.current.keys())) {
       if (!valid.has(key)) cacheRef.current.delete(key)
     }
-    // Also rebuild image data URLs for preview
-    const entries = await Promise.all(chars.map(async (c) => {
-      if (!c.imagePath) return [c.name, ''] as const
-      const dataUrl = await window.api.readImageAsDataUrl(c.imagePath)
-      return [c.name, dataUrl || ''] as const
-    }))
-    const map: Record<string, string> = {}
-    for (const [name, src] of entries) { if (src) map[name] = src }
-    setCharImgSrcs(map)
+    // Also rebuild image URLs for preview
+    setCharImgSrcs(buildCharImgSrcs(chars))
 
     // Refresh crop metadata
     const cropEntries = await Promise.all(chars.map(async (c) => {
@@ -287,7 +323,7 @@ function Principal() {
     if (!cur || !names.includes(cur)) cur = names[0] || ''
     setSelectedChar(cur)
   if (cur) await refreshMods(cur)
-  else { setMods([]); setModImgSrcs({}) }
+  else { setMods([]); setModImgSrcs({}); setModConflicts({}) }
   }
 
   async function pickRoot() {
@@ -301,18 +337,147 @@ function Principal() {
 
   async function addMod() {
     if (!selectedChar) return
-    const archive = await window.api.selectArchive()
-    if (!archive) return
+    const archives = await window.api.selectArchives()
+    if (!archives || archives.length === 0) return
+    // Several archives go through the batch queue; a single one keeps the detailed modal
+    if (archives.length > 1) { setBatchInstall({ character: selectedChar, paths: archives }); return }
+    const archive = archives[0]
     // Copy archive into a new mod folder named after archive
   setPendingMod({ archivePath: archive, archiveFileName: archive.split(/[/\\]/).pop() || 'mod.zip' })
   setShowAgregarMod(true)
   }
 
+  // Drag and drop of archives/folders from the file explorer onto a character card or the mods panel
+  function isFileDrag(e: DragEvent) {
+    return Array.from(e.dataTransfer.types).includes('Files')
+  }
+
+  function handleDragOver(e: DragEvent, character: string) {
+    if (!isFileDrag(e) || !character) return
+    e.preventDefault()
+    e.stopPropagation()
+    e.dataTransfer.dropEffect = 'copy'
+    if (dropTarget !== character) setDropTarget(character)
+  }
+
+  function handleDrop(e: DragEvent, character: string) {
+    if (!isFileDrag(e) || !character) return
+    e.preventDefault()
+    e.stopPropagation()
+    setDropTarget(null)
+    const paths = Array.from(e.dataTransfer.files).map((f) => window.api.getPathForFile(f)).filter(Boolean)
+    if (paths.length > 0) setBatchInstall({ character, paths })
+  }
+
+  // Files dropped outside a target would otherwise make the window navigate to them
+  useEffect(() => {
+    function prevent(e: globalThis.DragEvent) { e.preventDefault() }
+    function clear() { setDropTarget(null) }
+    window.addEventListener('dragover', prevent)
+    window.addEventListener('drop', prevent)
+    window.addEventListener('dragend', clear)
+    return () => {
+      window.removeEventListener('dragover', prevent)
+      window.removeEventListener('drop', prevent)
+      window.removeEventListener('dragend', clear)
+    }
+  }, [])
+
   async function editMeta(mod: ModItem) {
     setModToEdit(mod)
     setShowEditarMod(true)
   }
 
+  async function toggleMod(mod: ModItem, enable: boolean) {
+    cacheRef.current.delete(selectedChar)
+    try {
+      // Single-active characters: enabling a mod disables every other one (folders and flat archives)
+      if (enable && singleActive) await window.api.activateModExclusive(selectedChar, mod.folder)
+      else if (enable) await window.api.enableMod(selectedChar, mod.folder)
+      else await window.api.disableMod(selectedChar, mod.folder)
+    } catch (e) {
+      alert((enable ? 'No se pudo activar el mod: ' : 'No se pudo desactivar el mod: ') + (e instanceof Error ? e.message : String(e)))
+    }
+    await refreshMods(selectedChar)
+  }
+
+  const modTags = useMemo(() => {
+    const seen = new Map<string, string>()
+    for (const m of mods) for (const t of m.meta.tags || []) if (!seen.has(t.toLowerCase())) seen.set(t.toLowerCase(), t)
+    return Array.from(seen.values()).sort((a, b) => a.localeCompare(b))
+  }, [mods])
+
+  const visibleMods = useMemo(() => {
+    if (tagFilter === 'fav') return mods.filter((m) => m.meta.favorite)
+    if (tagFilter.startsWith('tag:')) {
+      const tag = tagFilter.slice(4).toLowerCase()
+      return mods.filter((m) => (m.meta.tags || []).some((t) => t.toLowerCase() === tag))
+    }
+    return mods
+  }, [mods, tagFilter])
+
+  // A filter picked for one character rarely makes sense for the next one
+  useEffect(() => { setTagFilter('') }, [selectedChar])
+
+  async function toggleFavorite(mod: ModItem) {
+    cacheRef.current.delete(selectedChar)
+    try {
+      await window.api.setModTags(selectedChar, mod.folder, { favorite: !mod.meta.favorite })
+    } catch (e) {
+      alert('No se pudo guardar el favorito: ' + (e instanceof Error ? e.message : String(e)))
+    }
+    await refreshMods(selectedChar)
+  }
+
+  // Global search result: select the character and point at the mod card
+  function jumpTo(character: string, folder?: string) {
+    setSelectedChar(character)
+    setTagFilter('')
+    setHighlight(folder ? { character, folder } : null)
+    document.querySelector(`[data-character="${CSS.escape(character)}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }
+
+  useEffect(() => {
+    if (!highlight || highlight.character !== selectedChar || !mods.some((m) => m.folder === highlight.folder)) return
+    document.querySelector(`[data-mod-folder="${CSS.escape(highlight.folder)}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+    const timer = setTimeout(() => setHighlight(null), 2000)
+    return () => clearTimeout(timer)
+  }, [highlight, selectedChar, mods])
+
+  // Multi-variant packs: enable one variant folder and disable the others
+  async function switchVariant(mod: ModItem, variant: string) {
+    cacheRef.current.delete(selectedChar)
+    try {
+      await window.api.setModVariant(selectedChar, mod.folder, variant)
+    } catch (e) {
+      alert('No se pudo cambiar la variante: ' + (e instanceof Error ? e.message : String(e)))
+    }
+    await refreshMods(selectedChar)
+  }
+
+  // Resolve a conflict by keeping this mod and disabling every enabled mod it collides with
+  async function keepOnlyMod(mod: ModItem) {
+    const others = modConflicts[mod.folder]?.others || []
+    if (others.length === 0) return
+    if (!confirm(`¿Mantener "${mod.folder}" y desactivar ${others.map((o) => `"${o}"`).join(', ')}?`)) return
+    cacheRef.current.delete(selectedChar)
+    const failed: string[] = []
+    for (const other of others) {
+      try { await window.api.disableMod(selectedChar, other) } catch (e) { failed.push(`${other}: ${e instanceof Error ? e.message : String(e)}`) }
+    }
+    if (failed.length) alert('No se pudieron desactivar:\n' + failed.join('\n'))
+    await refreshMods(selectedChar)
+  }
+
+  async function toggleSingleActive(on: boolean) {
+    if (!selectedChar) return
+    try {
+      setSettings(await window.api.setSingleActive(selectedChar, on))
+    } catch (e) {
+      alert('No se pudo guardar la preferencia: ' + (e instanceof Error ? e.message : String(e)))
+    }
+  }
+
   async function removeMod(mod: ModItem) {
     // Open modal instead of inline confirm
     setModToDelete(mod.folder)
@@ -328,16 +493,87 @@ function Principal() {
     return () => { try { off() } catch {} }
   }, [hasRoot, selectedChar])
 
+  // Open AgregarMod for finished downloads started from an install link
+  const openLinkDownloads = useCallback((items: DownloadItem[]) => {
+    for (const it of items) {
+      const link = linkDownloadsRef.current.get(it.id)
+      if (!link || it.status !== 'done' || !it.filePath) continue
+      linkDownloadsRef.current.delete(it.id)
+      setPendingMod({ archivePath: it.filePath, archiveFileName: it.fileName || 'mod.zip', character: link.character, pageUrl: link.pageUrl, downloadId: it.id })
+      setShowAgregarMod(true)
+    }
+  }, [])
+
+  useEffect(() => {
+    window.api.listDownloads().then(setDownloads).catch(() => {})
+    const off = window.api.onDownloadsChanged((items) => {
+      downloadsRef.current = items
+      setDownloads(items)
+      openLinkDownloads(items)
+    })
+    return () => { try { off() } catch { /* listener already gone */ } }
+  }, [openLinkDownloads])
+
+  useEffect(() => {
+    const off = window.api.onInstallLink((link) => setInstallLink(link))
+    return () => { try { off() } catch { /* listener already gone */ } }
+  }, [])
+
+  const linkCharacter = installLink?.character
+    ? characters.find((c) => c.name.toLowerCase() === installLink.character!.toLowerCase())?.name
+    : undefined
+
+  const startLinkDownload = useCallback(async (character: string, link: InstallLink) => {
+    setSelectedChar(character)
+    try {
+      const item = await window.api.addDownload({ url: link.url, character, pageUrl: link.page, autoInstall: false })
+      linkDownloadsRef.current.set(item.id, { character, pageUrl: link.page })
+      // The completion event may have arrived while addDownload was pending
+      openLinkDownloads(downloadsRef.current)
+      setShowDownloads(true)
+    } catch (e) {
+      alert('No se pudo descargar el mod: ' + (e instanceof Error ? e.message : e))
+    }
+  }, [openLinkDownloads])
+
+  // A link naming an existing character starts right away; otherwise ElegirPersonaje asks first
+  useEffect(() => {
+    if (!installLink || !linkCharacter) return
+    startLinkDownload(linkCharacter, installLink)
+    setInstallLink(null)
+  }, [installLink, linkCharacter, startLinkDownload])
+
+  const pendingDownloads = downloads.filter((d) => d.status === 'queued' || d.status === 'downloading' || d.status === 'installing').length
+
   const header = (
     <header className="header">
   <div className="title">Mod Manager by Syleaf</div>
       <div className="update-wrapper"><button onClick={() => setShowUpdatePanel(v => !v)} title="Actualizar">↻ Actualizar</button>{showUpdatePanel && (
         <Actualizar
           onAfterAction={refreshAll}
+          onOpenConflictReport={() => setShowConflictReport(true)}
+          onOpenImport={() => setShowImport(true)}
           onClose={() => setShowUpdatePanel(false)}
         />
       )}</div>
+      <div className="update-wrapper"><button onClick={() => setShowProfiles(v => !v)} title="Perfiles">👤 {profiles.active || 'Perfiles'}</button>{showProfiles && (
+        <Perfiles
+          active={profiles.active}
+          profiles={profiles.profiles}
+          onChanged={async () => {
+            cacheRef.current.clear()
+            await refreshProfiles()
+            await refreshAll()
+          }}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}</div>
+      <div className="update-wrapper"><button onClick={() => setShowDownloads(v => !v)} title="Descargas">⬇ Descargas{pendingDownloads ? ` (${pendingDownloads})` : ''}</button>{showDownloads && (
+        <Descargas items={downloads} onClose={() => setShowDownloads(false)} />
+      )}</div>
       <div className="update-wrapper"><button onClick={() => setShowConfig(true)} title="Configuración">⚙</button></div>
+      <div className="update-wrapper"><button onClick={() => setShowPapelera(true)} title="Papelera">🗑 Papelera</button></div>
+      {hasRoot && <BuscarMods characters={characters.map((c) => c.name)} onJump={jumpTo} />}
       <div className="spacer" />
       <div className="root">
         <span className="label">Carpeta de mods:</span>
@@ -373,7 +609,25 @@ function Principal() {
       </div>
       <div className="panel-header subheader-right">
         <h3>Mods</h3>
+        {selectedChar && (
+          <label className="single-active" title="Al activar un mod se desactivan los demás de este personaje">
+            <input type="checkbox" checked={singleActive} onChange={(e) => toggleSingleActive(e.target.checked)} />
+            Un solo mod activo
+          </label>
+        )}
+        {selectedChar && (
+          <select className="tag-filter" value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} title="Filtrar por etiqueta">
+            <option value="">Todas las etiquetas</option>
+            <option value="fav">★ Favoritos</option>
+            {modTags.map((t) => <option key={t} value={'tag:' + t}>{t}</option>)}
+            {tagFilter.startsWith('tag:') && !modTags.includes(tagFilter.slice(4)) && <option value={tagFilter}>{tagFilter.slice(4)}</option>}
+          </select>
+        )}
         <div className="spacer" />
+        <button onClick={() => setShowEtiquetas(true)} title="Renombrar, fusionar o eliminar etiquetas">🏷 Etiquetas</button>
+        <button onClick={() => setShowTeclas(true)} disabled={!selectedChar} title="Teclas de los mods activos">⌨ Teclas</button>
+        <button onClick={() => setShowAleatorio(true)} title="Activar un mod al azar">🎲 Aleatorio</button>
+  <button onClick={() => setShowAgregarUrl(true)} disabled={!selectedChar} title="Descargar un mod desde una URL">⬇ Agregar desde URL</button>
   <button onClick={addMod} disabled={!selectedChar}>+ Agregar Mod (ZIP/7z/RAR)</button>
       </div>
 
@@ -383,8 +637,12 @@ function Principal() {
           {characters.map((c) => (
             <div
               key={c.name}
-              className={`char-card ${c.name === selectedChar ? 'active' : ''}`}
+              data-character={c.name}
+              className={`char-card ${c.name === selectedChar ? 'active' : ''} ${dropTarget === c.name ? 'drop-target' : ''}`}
               onClick={() => setSelectedChar(c.name)}
+              onDragOver={(e) => handleDragOver(e, c.name)}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(e, c.name)}
             >
               {charImgSrcs[c.name] ? (
                 (() => {
@@ -446,7 +704,12 @@ function Principal() {
       </main>
 
       {/* Derecha: Mods del personaje seleccionado */}
-      <section className="mods-panel">
+      <section
+        className={`mods-panel ${selectedChar && dropTarget === selectedChar ? 'drop-target' : ''}`}
+        onDragOver={(e) => handleDragOver(e, selectedChar)}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null) }}
+        onDrop={(e) => handleDrop(e, selectedChar)}
+      >
         {!selectedChar && <div className="empty-hint">Selecciona un personaje a la izquierda.</div>}
         {selectedChar && (
           <div className="mods-grid">
@@ -456,9 +719,13 @@ function Principal() {
                 <div>Cargando mods…</div>
               </div>
             )}
-            {mods.map((m) => (
-              <div key={m.folder} className="mod-card">
-                <div className="mod-thumb" onClick={() => { const key = m.dir + '::' + m.folder; if (modImgSrcs[key]) { setPreviewSrc(modImgSrcs[key]); setShowPreview(true) } }}>
+            {visibleMods.map((m) => (
+              <div
+                key={m.folder}
+                data-mod-folder={m.folder}
+                className={`mod-card${modConflicts[m.folder] ? ' conflict' : ''}${highlight?.folder === m.folder && highlight.character === selectedChar ? ' highlight' : ''}`}
+              >
+                <div className="mod-thumb" onClick={() => { if (m.previewPath) { setPreviewSrc(window.api.modImageUrl(m.previewPath)); setShowPreview(true) } }}>
                   {(() => { const key = m.dir + '::' + m.folder; const src = modImgSrcs[key]; return src ? (
                     <div style={{ width: '100%', height: '100%', backgroundImage: `url(${src})`, backgroundRepeat: 'no-repeat', backgroundSize: 'cover', backgroundPosition: '50% 50%' }} />
                   ) : (
@@ -466,27 +733,79 @@ function Principal() {
                   ) })()}
                 </div>
                 <div className="mod-info">
-                  <div className="mod-name">{modInternalNames[m.dir + '::' + m.folder] || m.meta.name || m.folder}</div>
+                  <div className="mod-name-row">
+                    <div className="mod-name">{modInternalNames[m.dir + '::' + m.folder] || m.meta.name || m.folder}</div>
+                    <button
+                      className={m.meta.favorite ? 'icon mod-favorite on' : 'icon mod-favorite'}
+                      onClick={() => toggleFavorite(m)}
+                      title={m.meta.favorite ? 'Quitar de favoritos' : 'Marcar como favorito'}
+                    >
+                      {m.meta.favorite ? '★' : '☆'}
+                    </button>
+                  </div>
+                  {m.meta.tags && m.meta.tags.length > 0 && (
+                    <div className="mod-tags">
+                      {m.meta.tags.map((t) => <span key={t} className="tag-chip" onClick={() => setTagFilter('tag:' + t)} title="Mostrar solo los mods con esta etiqueta">{t}</span>)}
+                    </div>
+                  )}
                   <div className="muted" title={m.folder}>{m.folder}</div>
                   {(() => { const url = modPageUrls[m.dir + '::' + m.folder]; return url ? (
                     <a href="#" onClick={(e) => { e.preventDefault(); window.api.openModPage(selectedChar, m.folder) }} title={url}>
                       {url}
                     </a>
                   ) : <div className="muted">Sin URL</div> })()}
+                  {m.ini && m.ini.files > 0 && (
+                    <div className="muted mod-ini" title={m.ini.namespaces.join(', ')}>
+                      INI: {m.ini.hashes} hashes{m.ini.keys.length > 0 ? ` · Teclas: ${Array.from(new Set(m.ini.keys)).join(', ')}` : ''}
+                    </div>
+                  )}
+                  {m.meta.variants && m.meta.variants.length >= 2 && (
+                    <label className="mod-variant muted">
+                      Variante:
+                      <select value={m.meta.activeVariant || ''} onChange={(e) => switchVariant(m, e.target.value)}>
+                        {!m.meta.activeVariant && <option value="" disabled>—</option>}
+                        {m.meta.variants.map((v) => <option key={v} value={v}>{v}</option>)}
+                      </select>
+                    </label>
+                  )}
+                  {(() => { const u = modUpdates[m.folder.replace(/^DISABLED_/i, '').toLowerCase()]; return u?.status === 'update' ? (
+                    <a
+                      href="#"
+                      className="mod-update"
+                      onClick={(e) => { e.preventDefault(); window.api.openModPage(selectedChar, m.folder) }}
+                      title={`${u.latest?.name || ''}${u.latest?.date ? ' · ' + new Date(u.latest.date).toLocaleDateString() : ''}${u.remoteVersion ? ' · v' + u.remoteVersion : ''}`}
+                    >
+                      ⬆ Actualización disponible
+                    </a>
+                  ) : null })()}
+                  {(() => { const c = modConflicts[m.folder]; return c ? (
+                    <details className="mod-conflict">
+                      <summary>⚠ Conflicto con {c.others.join(', ')} ({c.hashes.length} {c.hashes.length === 1 ? 'hash' : 'hashes'})</summary>
+                      <ul>
+                        {c.hashes.map((h) => <li key={h}>{h}</li>)}
+                      </ul>
+                      <button onClick={() => keepOnlyMod(m)}>Mantener este, desactivar los demás</button>
+                    </details>
+                  ) : null })()}
                 </div>
                 <div className="mod-actions">
                   <button onClick={() => editMeta(m)}>Editar</button>
                   <button onClick={() => window.api.openFolder(selectedChar, m.folder)}>Carpeta</button>
                   {m.meta.enabled ? (
-                    <button onClick={async () => { cacheRef.current.delete(selectedChar); await window.api.disableMod(selectedChar, m.folder); await refreshMods(selectedChar) }}>Desactivar</button>
+                    <button onClick={() => toggleMod(m, false)}>Desactivar</button>
                   ) : (
-                    <button onClick={async () => { cacheRef.current.delete(selectedChar); await window.api.enableMod(selectedChar, m.folder); await refreshMods(selectedChar) }}>Activar</button>
+                    <button onClick={() => toggleMod(m, true)}>Activar</button>
                   )}
                   <button className="danger" onClick={() => removeMod(m)}>Eliminar</button>
                 </div>
               </div>
             ))}
             {mods.length === 0 && <div className="empty-hint">No hay mods para este personaje todavía.</div>}
+            {mods.length > 0 && visibleMods.length === 0 && (
+              <div className="empty-hint">
+                Ningún mod coincide con el filtro. <a href="#" onClick={(e) => { e.preventDefault(); setTagFilter('') }}>Mostrar todos</a>
+              </div>
+            )}
           </div>
         )}
       </section>
@@ -530,19 +849,47 @@ function Principal() {
           }}
         />
       )}
-      {showAgregarMod && selectedChar && pendingMod && (
+      {showAgregarMod && pendingMod && (pendingMod.character || selectedChar) && (
         <AgregarMod
-          character={selectedChar}
+          character={pendingMod.character || selectedChar}
           archivePath={pendingMod.archivePath}
           archiveFileName={pendingMod.archiveFileName}
-          onClose={() => { setShowAgregarMod(false); setPendingMod(null) }}
-          onSaved={async () => {
-            // Invalidate cache for this character and refresh
-            cacheRef.current.delete(selectedChar)
-            await refreshMods(selectedChar)
+          initialPageUrl={pendingMod.pageUrl}
+          onClose={() => {
+            // The downloaded file is no longer needed once the modal closes (saved or not)
+            if (pendingMod.downloadId) window.api.removeDownload(pendingMod.downloadId).catch(() => {})
+            setShowAgregarMod(false)
+            setPendingMod(null)
+          }}
+          characters={characters.map((c) => c.name)}
+          onSaved={async (character) => {
+            // Invalidate cache for this character and refresh (a new character also reloads the list)
+            cacheRef.current.delete(character)
+            if (!characters.some((c) => c.name === character)) await refreshAll()
+            else if (character === selectedChar) await refreshMods(character)
           }}
         />
       )}
+      {batchInstall && (
+        <InstalarLote
+          character={batchInstall.character}
+          paths={batchInstall.paths}
+          onClose={() => setBatchInstall(null)}
+          onInstalled={async () => {
+            cacheRef.current.delete(batchInstall.character)
+            if (batchInstall.character === selectedChar) await refreshMods(selectedChar)
+          }}
+        />
+      )}
+      {installLink && !linkCharacter && (
+        <ElegirPersonaje
+          characters={characters.map((c) => c.name)}
+          suggested={installLink.character}
+          fileUrl={installLink.url}
+          onPick={(character) => { startLinkDownload(character, installLink); setInstallLink(null) }}
+          onClose={() => setInstallLink(null)}
+        />
+      )}
       {showEliminarMod && selectedChar && modToDelete && (
         <EliminarMod
           character={selectedChar}
@@ -575,6 +922,63 @@ function Principal() {
           }}
         />
       )}
+      {showPapelera && (
+        <Papelera
+          onClose={() => setShowPapelera(false)}
+          onRestored={async () => {
+            cacheRef.current.clear()
+            await refreshAll()
+          }}
+        />
+      )}
+      {showTeclas && selectedChar && (
+        <Teclas
+          character={selectedChar}
+          onClose={() => setShowTeclas(false)}
+          onChanged={async () => {
+            cacheRef.current.delete(selectedChar)
+            await refreshMods(selectedChar)
+          }}
+        />
+      )}
+      {showAleatorio && (
+        <Aleatorio
+          character={selectedChar}
+          onClose={() => setShowAleatorio(false)}
+          onChanged={async () => {
+            cacheRef.current.clear()
+            await refreshAll()
+          }}
+        />
+      )}
+      {showAgregarUrl && selectedChar && (
+        <AgregarDesdeUrl
+          character={selectedChar}
+          onClose={() => setShowAgregarUrl(false)}
+          onQueued={() => setShowDownloads(true)}
+        />
+      )}
+      {showEtiquetas && (
+        <Etiquetas
+          onClose={() => setShowEtiquetas(false)}
+          onChanged={async () => {
+            cacheRef.current.clear()
+            if (selectedChar) await refreshMods(selectedChar)
+          }}
+        />
+      )}
+      {showImport && (
+        <ImportarCarpeta
+          onClose={() => setShowImport(false)}
+          onImported={async () => {
+            cacheRef.current.clear()
+            await refreshAll()
+          }}
+        />
+      )}
+      {showConflictReport && (
+        <ReporteConflictos onClose={() => setShowConflictReport(false)} />
+      )}
       {showPreview && (
         <div className="overlay" onClick={() => setShowPreview(false)}>
           <div className="preview-box" onClick={(e) => e.stopPropagation()}>
@@ -593,6 +997,9 @@ function Principal() {
   )
 }
 
+const CHAR_THUMB_WIDTH = 720
+const MOD_THUMB_WIDTH = 480
+
 function debounce<T extends (...args: any[]) => void>(fn: T, wait = 400) {
   let t: any
   return (...args: any[]) => {
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react'
+
+// Library-wide report: enabled mods of every character grouped by the texture hash they override.
+// Collisions across character folders are shown by default; same-character ones are also
+// flagged on the mod cards.
+
+type ConflictMod = { character: string; mod: string; file: string; section: string }
+type Collision = { hash: string; matchFirstIndex?: string; crossCharacter: boolean; mods: ConflictMod[] }
+
+type Props = {
+  onClose: () => void
+}
+
+export default function ReporteConflictos({ onClose }: Props) {
+  const modalRef = useRef<HTMLDivElement | null>(null)
+  const [collisions, setCollisions] = useState<Collision[]>([])
+  const [scanned, setScanned] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [onlyCross, setOnlyCross] = useState(true)
+
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      const el = e.target as HTMLElement
+      if (!modalRef.current) return
+      if (!modalRef.current.contains(el)) onClose()
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape') onClose() }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [onClose])
+
+  async function scan() {
+    setLoading(true)
+    setError('')
+    try {
+      const report = await window.api.getConflictReport()
+      setCollisions(report.collisions)
+      setScanned(report.scanned)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      setCollisions([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { scan() }, [])
+
+  const crossCount = collisions.filter((c) => c.crossCharacter).length
+  const visible = onlyCross ? collisions.filter((c) => c.crossCharacter) : collisions
+
+  return (
+    <div className="overlay">
+      <div ref={modalRef} className="modal modal-wide">
+        <div className="modal-header">
+          <div className="modal-title">Reporte de conflictos</div>
+          <button className="icon" onClick={onClose}>×</button>
+        </div>
+        <div className="modal-body">
+          {loading && <div className="muted">Analizando mods activos…</div>}
+          {error && <div className="muted" style={{ color: '#d66' }}>No se pudo generar el reporte: {error}</div>}
+          {!loading && !error && (
+            <div className="muted">
+              {scanned} mods activos analizados · {collisions.length} hashes compartidos ({crossCount} entre personajes distintos)
+            </div>
+          )}
+          <label className="muted" style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <input type="checkbox" checked={onlyCross} onChange={(e) => setOnlyCross(e.target.checked)} />
+            Solo conflictos entre personajes
+          </label>
+          {!loading && visible.length === 0 && !error && <div className="muted">No se encontraron conflictos.</div>}
+          {visible.map((c) => (
+            <div key={c.hash + '|' + (c.matchFirstIndex ?? '')} className="conflict-group">
+              <div className="conflict-hash">
+                {c.hash}{c.matchFirstIndex ? ` · match_first_index ${c.matchFirstIndex}` : ''}
+              </div>
+              {c.mods.map((m) => (
+                <div key={m.character + '/' + m.mod} className="conflict-row">
+                  <div className="trash-info">
+                    <div className="mod-name">{m.character} / {m.mod}</div>
+                    <div className="muted">{m.file} · [{m.section}]</div>
+                  </div>
+                  <button onClick={() => window.api.openFolder(m.character, m.mod)}>Carpeta</button>
+                </div>
+              ))}
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            <button disabled={loading} onClick={scan}>Volver a analizar</button>
+            <button className="secondary" onClick={onClose}>Cerrar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+// Key bindings of the enabled mods of one character ([Key*] sections of their .ini files).
+// Keys used by more than one mod are highlighted; rebinding rewrites the `key =` line and
+// keeps a .bak copy of the original .ini.
+
+type Binding = {
+  mod: string
+  file: string
+  section: string
+  line: number
+  key: string
+  back?: string
+  type?: string
+  variables: Array<{ name: string; values: string[] }>
+  collidesWith: string[]
+}
+
+type Props = {
+  character: string
+  onClose: () => void
+  onChanged?: () => void | Promise<void>
+}
+
+export default function Teclas({ character, onClose, onChanged }: Props) {
+  const modalRef = useRef<HTMLDivElement | null>(null)
+  const [bindings, setBindings] = useState<Binding[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<string>('')
+  const [draft, setDraft] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    function onDocDown(e: MouseEvent) {
+      const el = e.target as HTMLElement
+      if (!modalRef.current) return
+      if (!modalRef.current.contains(el)) onClose()
+    }
+    function onKey(e: KeyboardEvent) { if (e.key === 'Escape') onClose() }
+    document.addEventListener('mousedown', onDocDown)
+    document.addEventListener('keydown', onKey)
+    return () => { document.removeEventListener('mousedown', onDocDown); document.removeEventListener('keydown', onKey) }
+  }, [onClose])
+
+  const reload = useCallback(async () => {
+    try {
+      setBindings(await window.api.getKeyBindings(character))
+    } catch {
+      setBindings([])
+    } finally {
+      setLoading(false)
+    }
+  }, [character])
+
+  useEffect(() => { setLoading(true); reload() }, [reload])
+
+  const bindingId = (b: Binding) => `${b.mod}::${b.file}::${b.line}`
+
+  function startEdit(b: Binding) {
+    setEditing(bindingId(b))
+    setDraft(b.key)
+  }
+
+  async function saveEdit(b: Binding) {
+    const value = draft.trim()
+    if (!value || value === b.key) { setEditing(''); return }
+    setBusy(true)
+    try {
+      await window.api.rebindKey(character, b.mod, b.file, b.line, value)
+      setEditing('')
+      await onChanged?.()
+    } catch (e) {
+      alert('No se pudo cambiar la tecla: ' + (e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(false)
+      await reload()
+    }
+  }
+
+  const collisions = bindings.filter((b) => b.collidesWith.length > 0).length
+
+  return (
+    <div className="overlay">
+      <div ref={modalRef} className="modal modal-wide">
+        <div className="modal-header">
+          <div className="modal-title">Teclas · {character}</div>
+          <button className="icon" onClick={onClose}>×</button>
+        </div>
+        <div className="modal-body">
+          {loading && <div className="muted">Cargando…</div>}
+          {!loading && bindings.length === 0 && <div className="muted">Ningún mod activo define teclas.</div>}
+          {!loading && collisions > 0 && (
+            <div className="muted" style={{ color: '#e88' }}>{collisions} teclas usadas por más de un mod activo.</div>
+          )}
+          {bindings.length > 0 && (
+            <table className="ini-table">
+              <thead>
+                <tr><th>Mod</th><th>Tecla</th><th>Tipo</th><th>Sección</th><th>Variables</th><th /></tr>
+              </thead>
+              <tbody>
+                {bindings.map((b) => {
+                  const id = bindingId(b)
+                  return (
+                    <tr key={id} className={b.collidesWith.length > 0 ? 'key-collision' : undefined} title={b.collidesWith.length > 0 ? 'También la usa: ' + b.collidesWith.join(', ') : b.file}>
+                      <td>{b.mod}</td>
+                      <td>
+                        {editing === id ? (
+                          <input
+                            autoFocus
+                            value={draft}
+                            disabled={busy}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') saveEdit(b)
+                              if (e.key === 'Escape') { e.stopPropagation(); setEditing('') }
+                            }}
+                            placeholder="VK_F5, ctrl 1…"
+                          />
+                        ) : (
+                          <>{b.key}{b.back ? ` / ${b.back}` : ''}</>
+                        )}
+                      </td>
+                      <td>{b.type || 'activate'}</td>
+                      <td>{b.section}</td>
+                      <td>{b.variables.map((v) => `${v.name} = ${v.values.join(',')}`).join('; ')}</td>
+                      <td>
+                        {editing === id ? (
+                          <button disabled={busy} onClick={() => saveEdit(b)}>Guardar</button>
+                        ) : (
+                          <button disabled={busy} onClick={() => startEdit(b)}>Cambiar</button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            <button className="secondary" onClick={onClose}>Cerrar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
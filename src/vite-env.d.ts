@@ -9,6 +9,10 @@ interface ModMeta {
 	updateUrl?: string
 	image?: string
 	enabled?: boolean
+	favorite?: boolean
+	tags?: string[]
+	variants?: string[]
+	activeVariant?: string
 	createdAt?: string
 	updatedAt?: string
 }
@@ -19,6 +23,214 @@ interface ModItem {
 	meta: ModMeta
 }
 
+interface ModDetailedItem extends ModItem {
+	archive?: string | null
+	flat?: boolean
+	internalName: string | null
+	pageUrl?: string
+	imageUrl?: string
+	previewPath: string | null
+	ini: { files: number; hashes: number; keys: string[]; namespaces: string[] } | null
+}
+
+// One mod of any character, for the global search bar
+interface LibraryModItem {
+	character: string
+	folder: string
+	name: string
+	internalName: string | null
+	pageUrl?: string
+	previewPath: string | null
+	enabled: boolean
+	flat: boolean
+	tags: string[]
+	favorite: boolean
+	createdAt?: string
+	updatedAt?: string
+}
+
+interface IniHashOverride {
+	file: string
+	section: string
+	kind: 'texture' | 'shader'
+	hash: string
+	matchFirstIndex?: string
+}
+
+interface IniKeyBinding {
+	file: string
+	section: string
+	line: number
+	key: string
+	back?: string
+	type?: string
+	condition?: string
+	variables: Array<{ name: string; values: string[] }>
+}
+
+interface ModKeyBinding extends IniKeyBinding {
+	mod: string
+	collidesWith: string[]
+}
+
+interface IniSummary {
+	files: string[]
+	namespaces: string[]
+	hashes: IniHashOverride[]
+	keys: IniKeyBinding[]
+	variables: Array<{ file: string; name: string; initial?: string; global: boolean; persist: boolean }>
+	sectionCounts: Record<string, number>
+}
+
+interface HashConflict {
+	hash: string
+	matchFirstIndex?: string
+	mods: Array<{ mod: string; file: string; section: string }>
+}
+
+interface ConflictReport {
+	scanned: number
+	collisions: Array<{
+		hash: string
+		matchFirstIndex?: string
+		crossCharacter: boolean
+		mods: Array<{ character: string; mod: string; file: string; section: string }>
+	}>
+}
+
+interface ProfileSummary {
+	name: string
+	createdAt: string
+	updatedAt: string
+	enabledCount: number
+}
+
+interface ProfileApplyResult {
+	enabled: string[]
+	disabled: string[]
+	missing: string[]
+	skipped: string[]
+	limited: string[] // single-active characters: profile mods left disabled
+}
+
+interface ShuffleHistoryEntry {
+	at: string
+	character: string | null
+	picked: Array<{ character: string; mod: string }>
+}
+
+interface UpdateCheckResult {
+	status: 'update' | 'current' | 'unknown' | 'unsupported' | 'error'
+	source?: string
+	latest?: { id: number; name: string; size: number; date: number; downloadUrl: string; version?: string }
+	remoteVersion?: string
+	installedVersion?: string
+	message?: string
+	checkedAt: string
+}
+
+interface RemoteFile {
+	id: number
+	name: string
+	size: number
+	date: number
+	downloadUrl: string
+	version?: string
+	description?: string
+}
+
+interface GameBananaMod {
+	id: number
+	name: string
+	author?: string
+	description?: string
+	version?: string
+	dateUpdated?: number
+	images: Array<{ url: string; thumb: string }>
+	files: RemoteFile[]
+}
+
+interface DownloadItem {
+	id: string
+	url: string
+	character: string
+	pageUrl?: string
+	autoInstall: boolean
+	fileName?: string
+	status: 'queued' | 'downloading' | 'installing' | 'done' | 'error' | 'cancelled'
+	received: number
+	total: number
+	error?: string
+	filePath?: string
+	modName?: string
+	createdAt: string
+}
+
+interface CharacterSuggestion {
+	character: string | null
+	reason: 'hash' | 'name' | null
+	score: number
+	candidates: Array<{ character: string; votes: number }>
+}
+
+interface ImportCandidate {
+	path: string
+	name: string
+	enabled: boolean
+	iniFiles: number
+	suggestion: CharacterSuggestion
+}
+
+interface ArchiveCheck {
+	fileCount: number
+	totalSize: number
+	warnings: Array<{ kind: 'unsafePath' | 'executable' | 'tooLarge' | 'tooManyFiles' | 'large'; path?: string; blocking: boolean }>
+	blocking: boolean
+}
+
+interface ArchiveInspection {
+	encrypted: boolean
+	nested: string[]
+	variants: string[]
+	listed: boolean
+	entries: Array<{ path: string; folder: boolean; size: number }>
+	truncated: boolean
+	check: ArchiveCheck | null
+}
+
+interface ModFileList {
+	kind: 'folder' | 'flat'
+	fileName: string
+	entries: Array<{ path: string; folder: boolean; size: number }>
+	truncated: boolean
+}
+
+interface ModInfo {
+	title?: string
+	author?: string
+	description?: string
+	version?: string
+	files?: RemoteFile[]
+}
+
+interface Settings {
+	modsRoot?: string
+	imagesRoot?: string
+	trashMaxAgeDays?: number
+	trashMaxSizeMB?: number
+	singleActiveCharacters?: string[]
+}
+
+interface TrashItem {
+	id: string
+	kind: 'mod' | 'character'
+	character: string
+	name: string
+	deletedAt: string
+	size: number
+	entries: Array<{ original: string; stored: string }>
+}
+
 interface CharacterItem {
 	name: string
 	imagePath?: string
@@ -27,11 +239,15 @@ interface CharacterItem {
 declare global {
 	interface Window {
 		api: {
-			getSettings(): Promise<{ modsRoot?: string; imagesRoot?: string }>
-			setModsRoot(root: string): Promise<{ modsRoot?: string; imagesRoot?: string }>
-			setImagesRoot(root: string): Promise<{ modsRoot?: string; imagesRoot?: string }>
+			getSettings(): Promise<Settings>
+			setModsRoot(root: string): Promise<Settings>
+			setImagesRoot(root: string): Promise<Settings>
+			setSingleActive(character: string, enabled: boolean): Promise<Settings>
+			setTrashPolicy(policy: { maxAgeDays?: number; maxSizeMB?: number }): Promise<Settings>
 			selectFolder(): Promise<string | null>
 			selectArchive(): Promise<string | null>
+			selectArchives(): Promise<string[]>
+			getPathForFile(file: File): string
 
 			listCharacters(): Promise<string[]>
 			listCharactersWithImages(): Promise<CharacterItem[]>
@@ -41,18 +257,38 @@ declare global {
 			deleteCharacter(name: string): Promise<boolean>
 
 			listMods(character: string): Promise<ModItem[]>
+			listModsDetailed(character: string): Promise<ModDetailedItem[]>
+			listAllMods(): Promise<LibraryModItem[]>
+			getModConflicts(character: string): Promise<HashConflict[]>
+			getConflictReport(): Promise<ConflictReport>
 			addModFromArchive(character: string, archivePath: string, modName: string, meta?: Partial<ModMeta>): Promise<boolean>
-			copyArchiveToModFolder(character: string, archivePath: string): Promise<{ modName: string; fileName?: string; dir: string }>
-			createModFromArchive(character: string, archivePath: string): Promise<{ modName: string; dir: string }>
+			copyArchiveToModFolder(character: string, archivePath: string, opts?: { password?: string; unpackNested?: boolean; variants?: string[]; activeVariant?: string }): Promise<{ modName: string; fileName?: string; dir: string }>
+			createModFromArchive(character: string, archivePath: string, opts?: { password?: string; unpackNested?: boolean; variants?: string[]; activeVariant?: string }): Promise<{ modName: string; dir: string }>
+			inspectArchive(archivePath: string, password?: string): Promise<ArchiveInspection>
 			saveModMetadata(character: string, modName: string, meta: Partial<ModMeta>): Promise<ModMeta>
 			saveModImageFromDataUrl(character: string, modName: string, dataUrl: string): Promise<string>
 			saveModImageFromUrl(character: string, modName: string, url: string): Promise<string>
 			getModPreviewDataUrl(character: string, modName: string): Promise<string | null>
-			getModData(character: string, modName: string): Promise<{ pageUrl?: string; imageUrl?: string } | null>
+			getModData(character: string, modName: string): Promise<({ pageUrl?: string; imageUrl?: string } & ModInfo) | null>
 			setModData(character: string, modName: string, payload: { pageUrl?: string; imageUrl?: string }): Promise<boolean>
 			getPrimaryInternalName(character: string, modName: string): Promise<string | null>
 			renamePrimaryInternal(character: string, modName: string, newName: string): Promise<{ changed: boolean }>
+			listModFiles(character: string, modName: string): Promise<ModFileList>
+			openModFile(character: string, modName: string, file: string): Promise<boolean>
+			renameModFile(character: string, modName: string, file: string, newName: string): Promise<{ changed: boolean; path: string }>
+			deleteModFile(character: string, modName: string, file: string): Promise<boolean>
+			getModVariants(character: string, modName: string): Promise<{ variants: string[]; active: string | null }>
+			setModVariant(character: string, modName: string, variant: string): Promise<{ variants: string[]; active: string }>
+			setModTags(character: string, modName: string, patch: { tags?: string[]; favorite?: boolean }): Promise<{ tags?: string[]; favorite?: boolean }>
+			listTags(): Promise<Array<{ tag: string; count: number }>>
+			renameTag(from: string, to: string): Promise<{ changed: number; failed: string[] }>
+			deleteTag(tag: string): Promise<{ changed: number; failed: string[] }>
+			getModIniSummary(character: string, modName: string): Promise<IniSummary | null>
+			getKeyBindings(character: string): Promise<ModKeyBinding[]>
+			rebindKey(character: string, modName: string, file: string, line: number, newKey: string): Promise<boolean>
 			peekPrimaryInternalName(archivePath: string): Promise<string | null>
+			inspectDropped(paths: string[]): Promise<Array<{ path: string; name: string; kind: 'archive' | 'folder' | 'unsupported'; internalName: string | null }>>
+			installModFromFolder(character: string, folderPath: string): Promise<{ modName: string; dir: string }>
 			deleteMod(character: string, modName: string): Promise<boolean>
 			openModPage(character: string, modName: string): Promise<boolean>
 			openFolder(character?: string, modName?: string): Promise<boolean>
@@ -61,13 +297,43 @@ declare global {
 			enableMod(character: string, modName: string): Promise<boolean>
 			disableMod(character: string, modName: string): Promise<boolean>
 			readImageAsDataUrl(absPath: string): Promise<string | null>
+			modImageUrl(absPath: string, width?: number): string
 			saveImageFromUrl(character: string, url: string, crop?: any): Promise<string>
 			fetchImageDataUrl(url: string): Promise<string>
 			saveImageFromDataUrl(character: string, dataUrl: string, sourceUrl?: string, crop?: any): Promise<string>
 			getCharacterInfo(character: string): Promise<{ imagePath: string | null; url: string | null; crop?: any }>
 			deleteFile(absPath: string): Promise<boolean>
+			fetchGameBananaMod(pageUrl: string): Promise<GameBananaMod>
+			saveModInfo(character: string, modName: string, info: ModInfo): Promise<boolean>
+			detectCharacter(archivePath: string): Promise<CharacterSuggestion>
+			getHashDbInfo(): Promise<{ version: number; updatedAt: string | null; source: 'bundled' | 'user' | 'none'; characters: number; hashes: number; learned: number }>
+			importHashDb(): Promise<{ version: number; characters: number; hashes: number } | null>
+			learnHashesFromLibrary(): Promise<{ characters: number; hashes: number }>
+			scanImportFolder(sourceDir: string): Promise<{ characters: string[]; items: ImportCandidate[] }>
+			applyImport(sourceDir: string, assignments: Array<{ path: string; character: string }>, mode: 'move' | 'copy'): Promise<{ imported: Array<{ path: string; character: string; modName: string }>; failed: Array<{ path: string; error: string }>; unassigned: string[] }>
+			addDownload(req: { url: string; character: string; pageUrl?: string; autoInstall?: boolean }): Promise<DownloadItem>
+			listDownloads(): Promise<DownloadItem[]>
+			cancelDownload(id: string): Promise<boolean>
+			retryDownload(id: string): Promise<boolean>
+			removeDownload(id: string): Promise<boolean>
+			checkModUpdate(character: string, modName: string): Promise<UpdateCheckResult>
+			checkAllUpdates(): Promise<{ checked: number; updates: Array<{ character: string; mod: string; latest?: string }>; errors: Array<{ character: string; mod: string; message?: string }> }>
+			getUpdateStatus(character: string): Promise<Record<string, UpdateCheckResult>>
+			randomizeMods(options: { character?: string; weightFavorites?: boolean; excludeTags?: string[] }): Promise<{ picked: Array<{ character: string; mod: string }> }>
+			getShuffleHistory(): Promise<ShuffleHistoryEntry[]>
+			revertShuffle(): Promise<boolean>
+			listProfiles(): Promise<{ active: string | null; profiles: ProfileSummary[] }>
+			saveProfile(name: string): Promise<boolean>
+			deleteProfile(name: string): Promise<boolean>
+			applyProfile(name: string): Promise<ProfileApplyResult>
+			listTrash(): Promise<TrashItem[]>
+			restoreTrashItem(id: string): Promise<boolean>
+			purgeTrashItem(id: string): Promise<boolean>
+			emptyTrash(): Promise<boolean>
 			notifyReady(): void
 			onFsChanged(cb: (payload: any) => void): () => void
+			onInstallLink(cb: (link: { url: string; page?: string; character?: string }) => void): () => void
+			onDownloadsChanged(cb: (items: DownloadItem[]) => void): () => void
 		}
 	}
 }
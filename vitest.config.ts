@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so the tests do not start the Electron plugins
+export default defineConfig({
+  test: {
+    include: ['electron/**/*.test.ts'],
+    environment: 'node',
+  },
+})